@@ -1,9 +1,23 @@
-import { Config, loadConfig, UserTimeline} from "./priv/config.ts"
+import { Config, DigestWindow, Feed, List, loadConfig, MediaPolicy, sharedUserIDs, Timeline, UserTimeline} from "./priv/config.ts"
 import * as twitter from "./priv/twitter.ts"
 
 import { cliffy, feoblog, io, log, toml } from "./priv/deps.ts"
-import { htmlToMarkdown } from "./priv/markdown.ts"
-import { AttachmentCollector, Attachments, NoOpAttachmentColletor } from "./priv/attachments.ts";
+import { MarkdownWriter, truncate } from "./priv/mdwriter.ts"
+import { DEFAULT_TEMPLATES, imageDescription, pollChoices, pollStatus, renderTemplate, Templates } from "./priv/templates.ts"
+import { LinkCard, parseLinkCard, parsePoll, Poll } from "./priv/cards.ts"
+import { StatusCache } from "./priv/conversation.ts"
+import { imageURLs, videoVariants } from "./priv/media.ts"
+import { AttachmentCache } from "./priv/cache.ts"
+import { HostLimiter } from "./priv/limiter.ts"
+import { Attachment, AttachmentCollector, Attachments, ByteBudget, NoOpAttachmentColletor, Prefetcher, shouldCopy } from "./priv/attachments.ts";
+import { Archive } from "./priv/archive.ts"
+import { PostRecord, SyncState } from "./priv/state.ts"
+import { DryRun } from "./priv/dryrun.ts"
+import { Job, Scheduler, shutdownSignal } from "./priv/daemon.ts"
+import { Mirror } from "./priv/mirror.ts"
+import { Filters } from "./priv/filters.ts"
+import { CopiedImage, TwitterProfile } from "./priv/profile.ts"
+import { Export } from "./priv/export.ts"
 
 
 
@@ -11,33 +25,245 @@ async function main(options: MainOptions): Promise<void> {
     logger.debug(() => `Log level: ${logger.levelName}`)
     logger.debug(() => `Loading config`)
 
-    const config = await loadConfig(options.config)
+    const ctx = await loadContext(options)
+
+    await syncHomeTimeline(options, ctx)
+
+    await syncLikes(options, ctx)
 
-    await syncHomeTimeline(options, config)
+    await syncLists(options, ctx)
 
-    await syncUserTimelines(options, config)
+    await syncUserTimelines(options, ctx)
 
+    await ctx.dryRun?.close()
     logger.debug("Done.")
 }
 
-async function syncHomeTimeline(options: MainOptions, config: Config): Promise<void> {
+/** Things we need to sync, which are shared between timelines. */
+interface SyncContext {
+    config: Config
+
+    tClient: twitter.Client
+
+    /** If set, records what we've synced where. */
+    state?: SyncState
+
+    /** If set, we report what we would post instead of posting it. */
+    dryRun?: DryRun
+
+    /** If set, stop posting once this is aborted. */
+    signal?: AbortSignal
+
+    /** Tweets we've fetched to show the context of replies. */
+    statuses: StatusCache
+
+    /** If set, reuse attachments we've downloaded before. */
+    attachmentCache?: AttachmentCache
+
+    /** Limits concurrent attachment downloads and uploads, per host. */
+    hostLimiter: HostLimiter
+}
+
+async function loadContext(options: GlobalOptions, clientOptions?: twitter.ClientOptions): Promise<SyncContext> {
+    const config = await loadConfig(options.config)
+    const tClient = new twitter.Client(config.twitter, clientOptions)
+    const hostLimiter = new HostLimiter(options.maxPerHost)
+    const ctx: SyncContext = { config, tClient, statuses: new StatusCache(tClient), hostLimiter }
+    if (options.dryRun || options.dryRunJson) {
+        logger.info("Dry run: Nothing will be posted to FeoBlog.")
+        ctx.dryRun = await DryRun.start(options.dryRunJson)
+    }
+    if (config.stateFile) {
+        ctx.state = await SyncState.load(config.stateFile)
+    }
+    ctx.attachmentCache = await openCache(config)
+    return ctx
+}
+
+async function openCache(config: Config): Promise<AttachmentCache|undefined> {
+    if (!config.cache) { return undefined }
+    return await AttachmentCache.open(config.cache.dir, config.cache.maxSizeMB * 1024 * 1024)
+}
+
+/** The `cache gc` command. */
+async function cacheGC(options: GlobalOptions): Promise<void> {
+    const config = await loadConfig(options.config)
+    const cache = await openCache(config)
+    if (!cache) {
+        throw new Error("No [cache] configured.")
+    }
+
+    const result = await cache.gc()
+    const mb = (bytes: number) => (bytes / 1024 / 1024).toFixed(1)
+    logger.info(() => `Deleted ${result.deletedFiles} files (${mb(result.freedBytes)} MB). Cache is now ${mb(cache.size)} MB.`)
+}
+
+async function syncHomeTimeline(options: MainOptions, ctx: SyncContext): Promise<void> {
     logger.info("Syncing home timeline")
-    if (!config.twitter.homeTimeline) {
+    const timeline = ctx.config.twitter.homeTimeline
+    if (!timeline) {
         logger.info("No home timeline configured, nothing to do.")
         return
     }
 
-    // Find the last status saved in FeoBlog.
-    const fbClient = new feoblog.Client({baseURL: config.feoblog.server})
-    const userID = feoblog.UserID.fromString(config.twitter.homeTimeline.userID)
-    const lastTimestamp = await getLatestTimestamp(fbClient, userID)
+    const digest = timeline.digest
+    const toPosts = digest ? (tweets: Tweet[]) => makeDigests(tweets, digest) : undefined
+    await syncFeed(options, ctx, "home", timeline, (sinceID) => ctx.tClient.homeTimeline(sinceID), {toPosts})
+
+    if (timeline.syncFollows) {
+        await syncFollows(ctx)
+    }
+}
+
+/** The `follows` command. */
+async function follows(options: GlobalOptions): Promise<void> {
+    const ctx = await loadContext(options)
+    await syncFollows(ctx)
+    await ctx.dryRun?.close()
+}
+
+/**
+ * Make the home timeline's FeoBlog user follow the FeoBlog users of the Twitter users that
+ * the logged-in Twitter user follows.
+ * 
+ * Only follows that we know about (from homeTimeline.follows and userTimelines) are
+ * managed. Any others in the FeoBlog profile are left alone.
+ */
+async function syncFollows(ctx: SyncContext): Promise<void> {
+    const home = ctx.config.twitter.homeTimeline
+    if (!home) {
+        throw new Error("Syncing follows requires a twitter.homeTimeline")
+    }
+
+    // Twitter screen name (lowercase) -> FeoBlog userID:
+    const known = new Map<string,string>()
+    for (const timeline of ctx.config.twitter.userTimelines ?? []) {
+        known.set(timeline.twitterScreenName.toLowerCase(), timeline.userID)
+    }
+    for (const [screenName, userID] of Object.entries(home.follows)) {
+        known.set(screenName, userID)
+    }
+    const managed = new Set(known.values())
+
+    logger.info("Syncing follows")
+    const wanted = new Map<string, string>() // userID -> display name
+    for await (const friend of ctx.tClient.friends()) {
+        const userID = known.get(friend.screen_name.toLowerCase())
+        if (userID && userID !== home.userID) {
+            wanted.set(userID, `@${friend.screen_name}`)
+        }
+    }
+
+    const servers = timelineServers(ctx, home)
+    const fbClient = new feoblog.Client({baseURL: servers.primary})
+    const userID = feoblog.UserID.fromString(home.userID)
+    const existing = (await fbClient.getProfile(userID))?.item.profile
+
+    const follows: feoblog.protobuf.Follow[] = []
+    for (const follow of existing?.follows ?? []) {
+        const followID = feoblog.UserID.fromBytes(follow.user.bytes).toString()
+        if (managed.has(followID) && !wanted.has(followID)) { continue }
+        // Keep existing follows (and their display names) as-is:
+        wanted.delete(followID)
+        follows.push(follow)
+    }
+    for (const [followID, displayName] of wanted) {
+        follows.push(new feoblog.protobuf.Follow({
+            user: new feoblog.protobuf.UserID({bytes: feoblog.UserID.fromString(followID).bytes}),
+            display_name: displayName,
+        }))
+    }
+
+    const followIDs = (list: feoblog.protobuf.Follow[]) => list.map(it => feoblog.UserID.fromBytes(it.user.bytes).toString()).sort().join(",")
+    if (followIDs(follows) === followIDs(existing?.follows ?? [])) {
+        logger.info("Follows are up to date")
+        return
+    }
+
+    if (ctx.dryRun) {
+        logger.info(() => `Dry run: Would update follows to: ${follows.map(it => it.display_name).join(", ")}`)
+        return
+    }
+
+    logger.info(() => `Updating profile with ${follows.length} follows`)
+    const item = new feoblog.protobuf.Item({timestamp_ms_utc: Date.now()})
+    item.profile = existing ?? new feoblog.protobuf.Profile()
+    item.profile.follows = follows
+
+    const privKey = await feoblog.PrivateKey.fromString(home.password)
+    const itemBytes = item.serialize()
+    const sig = privKey.sign(itemBytes)
+    await fbClient.putItem(userID, sig, itemBytes)
+    for (const mirror of servers.mirrors.map(url => new Mirror(url))) {
+        await mirror.tryPut(userID, sig, itemBytes, [])
+    }
+}
+
+/**
+ * Sync the logged-in user's likes.
+ * 
+ * Note: Posts use the timestamp of the liked tweet, not the time it was liked.
+ * Likes are ordered by when they were liked, so we can't resume from the last one we
+ * synced. Instead, we check the most recent MAX_LIKES_PAGES pages for ones we haven't.
+ */
+async function syncLikes(options: MainOptions, ctx: SyncContext): Promise<void> {
+    logger.info("Syncing likes")
+    const likes = ctx.config.twitter.likes
+    if (!likes) {
+        logger.info("No likes configured, nothing to do.")
+        return
+    }
+
+    await syncFeed(options, ctx, "likes", likes, () => ctx.tClient.likes(MAX_LIKES_PAGES), {unordered: true})
+}
+
+/** How many pages (of 200) of likes to check for ones we haven't synced yet. */
+const MAX_LIKES_PAGES = 5
+
+async function syncLists(options: MainOptions, ctx: SyncContext): Promise<void> {
+    const lists = ctx.config.twitter.lists
+    if (!lists) { return } // nothing to do
+
+    for (const list of lists) {
+        await syncList(list, options, ctx)
+    }
+}
+
+async function syncList(list: List, options: MainOptions, ctx: SyncContext): Promise<void> {
+    logger.info(() => `Syncing list ${listName(list)}`)
+    const source = `list:${listName(list)}`
+    await syncFeed(options, ctx, source, list, (sinceID) => ctx.tClient.listTimeline(list, sinceID))
+}
+
+function listName(list: List): string {
+    if (list.listID) { return list.listID }
+    return `@${list.ownerScreenName}/${list.slug}`
+}
 
-    const skipUsers = new Set(config.twitter.homeTimeline.skipUsers.map(name => name.toLowerCase()))
+/** Sync tweets from many users (ex: the home timeline) into a single FeoBlog user. */
+async function syncFeed(
+    options: MainOptions,
+    ctx: SyncContext,
+    source: string,
+    feed: Feed,
+    getTweets: (sinceID?: string) => AsyncIterable<twitter.TweetJSON>,
+    feedOptions: FeedOptions = {},
+): Promise<void> {
+    const {toPosts = (tweets: Tweet[]) => tweets, unordered = false} = feedOptions
+    const servers = timelineServers(ctx, feed)
+    const fbClient = new feoblog.Client({baseURL: servers.primary})
+    const userID = feoblog.UserID.fromString(feed.userID)
+    const resume: ResumePoint = unordered ? {lastTimestamp: null} : await getResumePoint(ctx, source, fbClient, userID)
+    const {sinceID, lastTimestamp} = resume
+    // Without a state file, the timestamps of the posts we've already made are the best we've got:
+    const posted = unordered && !ctx.state ? await getPostTimestamps(fbClient, userID) : undefined
+
+    const skipUsers = new Set(feed.skipUsers.map(name => name.toLowerCase()))
+    const filters = new Filters(feed.filters)
 
     // Collect tweets we haven't saved yet:
-    const tClient = new twitter.Client(config.twitter)
     const newTweets: Tweet[] = []
-    for await (const tweetJSON of tClient.homeTimeline()) {
+    for await (const tweetJSON of getTweets(sinceID)) {
         const tweet = new Tweet(tweetJSON)
         if (!tweet.isPublic) {
             logger.debug(() => `skipping private tweet: ${tweet.url}`)
@@ -53,6 +279,10 @@ async function syncHomeTimeline(options: MainOptions, config: Config): Promise<v
             break 
         }
 
+        if (ctx.state?.hasPosted(tweet.json.id_str, feed.userID)) { continue }
+        if (posted?.has(tweet.timestamp)) { continue }
+        if (!passesFilters(filters, tweet)) { continue }
+
         newTweets.push(tweet)
         if (newTweets.length >= options.maxTweets) { break }
     }
@@ -61,16 +291,97 @@ async function syncHomeTimeline(options: MainOptions, config: Config): Promise<v
 
     // Insert oldest first, so that we can resume if something goes wrong:
     newTweets.sort(Tweet.sortByTimestamp)
+    cacheStatuses(ctx, newTweets, feed.replyContextDepth)
+
+    // Copying attachments from the home feed could get massive, so it's off unless configured.
+    const collectors = newCollectors(ctx, feed)
+
+    const privKey = await feoblog.PrivateKey.fromString(feed.password)
+    await postTweets(ctx, {...servers, ...collectors, fbClient, userID, privKey, source, templates: feed.templates, media: feed.media, replyContextDepth: feed.replyContextDepth}, toPosts(newTweets))
+}
+
+interface FeedOptions {
+    /** Optionally, group tweets into posts. Otherwise, each tweet is a post. */
+    toPosts?: (tweets: Tweet[]) => Postable[]
+
+    /**
+     * Set if the feed isn't ordered by tweet (ex: likes), so we can't resume from
+     * the newest tweet we've synced. getTweets should limit how far back it goes.
+     */
+    unordered?: boolean
+}
+
+/**
+ * Group tweets into one Digest per window of time.
+ * Only includes windows which have ended, since more tweets may arrive in the current one.
+ * @param tweets must be sorted by timestamp.
+ */
+export function makeDigests(tweets: Tweet[], window: DigestWindow, now = Date.now()): Digest[] {
+    const windowMs = window == "hour" ? 60 * 60 * 1000 : 24 * 60 * 60 * 1000
+
+    const digests: Digest[] = []
+    let current: Digest|undefined = undefined
+    for (const tweet of tweets) {
+        const start = tweet.timestamp - (tweet.timestamp % windowMs)
+        if (start + windowMs > now) {
+            // Window hasn't ended yet. (And neither have any after it.)
+            break
+        }
+
+        if (!current || current.start != start) {
+            current = new Digest(start, start + windowMs)
+            digests.push(current)
+        }
+        current.tweets.push(tweet)
+    }
+
+    const pending = tweets.length - digests.reduce((sum, d) => sum + d.tweets.length, 0)
+    if (pending > 0) {
+        logger.info(() => `Waiting for the current ${window} to end before posting ${pending} tweets.`)
+    }
+
+    return digests
+}
+
+/** Check a tweet against a timeline's filters, and log why it was skipped. */
+function passesFilters(filters: Filters, tweet: Tweet): boolean {
+    const result = filters.check(tweet.json, tweet.summaryText)
+    if (!result.include) {
+        logger.info(() => `Skipping tweet due to ${result.reason}: ${tweet.url}`)
+    }
+    return result.include
+}
+
+/** Where to resume syncing a source from. */
+interface ResumePoint {
+    /** Only fetch tweets newer than this tweet ID. */
+    sinceID?: string
 
-    // Don't copy attachments from the home feed, this could get massive.
-    const attachments = new NoOpAttachmentColletor()
+    /** Stop once we find tweets this old. */
+    lastTimestamp: number|null
+}
+
+async function getResumePoint(
+    ctx: SyncContext,
+    source: string,
+    fbClient: feoblog.Client,
+    userID: feoblog.UserID
+): Promise<ResumePoint> {
+    const {config, state} = ctx
+    const sinceID = state?.sinceID(source)
+    if (sinceID) {
+        return {sinceID, lastTimestamp: null}
+    }
 
-    const privKey = await feoblog.PrivateKey.fromString(config.twitter.homeTimeline.password)
-    for (const tweet of newTweets) {
-        const bytes = (await tweet.toItem({attachments})).serialize()
-        const sig = privKey.sign(bytes)
-        await fbClient.putItem(userID, sig, bytes)
+    if (state && sharedUserIDs(config).has(userID.toString())) {
+        // We can't tell which of this user's posts came from this source, so
+        // start from the beginning. (state.hasPosted() will catch duplicates.)
+        return {lastTimestamp: null}
     }
+
+    // Find the last status saved in FeoBlog.
+    // (This also lets us switch an existing config over to using a stateFile.)
+    return {lastTimestamp: await getLatestTimestamp(fbClient, userID)}
 }
 
 async function getLatestTimestamp(client: feoblog.Client, userID: feoblog.UserID): Promise<number|null> {
@@ -83,81 +394,632 @@ async function getLatestTimestamp(client: feoblog.Client, userID: feoblog.UserID
     return null
 }
 
-async function syncUserTimelines(options: MainOptions, config: Config): Promise<void> {
-    const timelines = config.twitter.userTimelines
+async function syncUserTimelines(options: MainOptions, ctx: SyncContext): Promise<void> {
+    const timelines = ctx.config.twitter.userTimelines
     if (!timelines) { return } // nothing to do
 
     for (const timeline of timelines) {
-        await syncUserTimeline(timeline, options, config)
+        await syncUserTimeline(timeline, options, ctx)
     }
 }
 
-async function syncUserTimeline(timeline: UserTimeline, _options: MainOptions, config: Config): Promise<void> {
+function userTimelineSource(timeline: UserTimeline): string {
+    return `user:${timeline.twitterScreenName.toLowerCase()}`
+}
+
+// See: https://developer.twitter.com/en/docs/twitter-api/v1/tweets/timelines/api-reference/get-statuses-user_timeline
+// Max number supported by the endpoint. Always get the max, because once they fall outside of that range, 
+// you can never fetch them again.
+// The max is documented as 3200, so we shouldn't actually reach this number:
+const MAX_USER_TIMELINE_TWEETS = 5000
+
+async function syncUserTimeline(timeline: UserTimeline, _options: MainOptions, ctx: SyncContext): Promise<void> {
     logger.info(() => `Syncing timeline for @${timeline.twitterScreenName}`)
-    const fbClient = new feoblog.Client({baseURL: config.feoblog.server})
+    const servers = timelineServers(ctx, timeline)
+    const fbClient = new feoblog.Client({baseURL: servers.primary})
     const userID = feoblog.UserID.fromString(timeline.userID)
+    const source = userTimelineSource(timeline)
     
-    const lastTimestamp = await getLatestTimestamp(fbClient, userID)
-
-    // See: https://developer.twitter.com/en/docs/twitter-api/v1/tweets/timelines/api-reference/get-statuses-user_timeline
-    // Max number supported by the endpoint. Always get the max, because once they fall outside of that range, 
-    // you can never fetch them again.
-    // The max is documented as 3200, so we shouldn't actually reach this number:
-    const maxTweets = 5000 
+    const {sinceID, lastTimestamp} = await getResumePoint(ctx, source, fbClient, userID)
 
     const statusLogger = new ThrottledLogger(logger)
+    const filters = new Filters(timeline.filters)
 
-    const tClient = new twitter.Client(config.twitter)
     const newTweets: Tweet[] = []
     const timelineOptions = {
         skipReplies: timeline.skipReplies,
         skipRetweets: timeline.skipRetweets,
-        copyAttachments: timeline.copyAttachments,
+        sinceID,
     }
-    for await (const tweetJSON of tClient.userTimeline(timeline.twitterScreenName, timelineOptions)) {
+    for await (const tweetJSON of ctx.tClient.userTimeline(timeline.twitterScreenName, timelineOptions)) {
         const tweet = new Tweet(tweetJSON)
 
         if (lastTimestamp && tweet.timestamp <= lastTimestamp) {
             break 
         }
 
+        if (ctx.state?.hasPosted(tweet.json.id_str, timeline.userID)) { continue }
+        if (!passesFilters(filters, tweet)) { continue }
+
         newTweets.push(tweet)
         statusLogger.info(() => `Loaded ${newTweets.length} tweets.`)
-        if (newTweets.length >= maxTweets) { break }
+        if (newTweets.length >= MAX_USER_TIMELINE_TWEETS) { break }
     }
 
     newTweets.sort(Tweet.sortByTimestamp)
+    cacheStatuses(ctx, newTweets, timeline.replyContextDepth)
     const privKey = await feoblog.PrivateKey.fromString(timeline.password)
 
+    let posts: Postable[] = newTweets
+    if (timeline.collapseThreads) {
+        posts = readyPosts(collapseThreads(newTweets), timeline.threadWaitMinutes)
+    }
+
+    const collectors = newCollectors(ctx, timeline)
+    await postTweets(ctx, {...servers, ...collectors, fbClient, userID, privKey, source, replyComments: true, templates: timeline.templates, copyCardImages: timeline.copyCardImages, media: timeline.media, replyContextDepth: timeline.replyContextDepth}, posts)
+
+    if (timeline.syncProfile) {
+        await syncProfile(timeline, ctx)
+    }
+}
+
+/** Add tweets to the StatusCache, so that fetchReplyContext() won't have to fetch them. */
+function cacheStatuses(ctx: SyncContext, tweets: Tweet[], maxDepth: number) {
+    if (maxDepth <= 0) { return }
+
+    // Replies are often to tweets we've already got:
+    for (const tweet of tweets) {
+        ctx.statuses.add(tweet.json)
+    }
+}
+
+/**
+ * Fetch the tweets that a post's replies reply to (up to maxDepth of them), so we can show them.
+ * Stops at any tweet that isn't public.
+ *
+ * Done one post at a time, just before posting it, so that if we hit a rate limit,
+ * we've still posted (and can resume after) everything before it.
+ */
+async function fetchReplyContext(ctx: SyncContext, post: Postable, maxDepth: number): Promise<void> {
+    if (maxDepth <= 0) { return }
+
+    for (const tweet of replyTweets(post)) {
+        if (tweet.type != "reply" || tweet.context.length > 0) { continue }
+        const ancestors = await ctx.statuses.ancestors(tweet.json, maxDepth, (json) => new Tweet(json).isPublic)
+        tweet.context = ancestors.map(json => new Tweet(json))
+    }
+}
+
+/** The tweets in a post which may show the tweets they reply to. */
+function replyTweets(post: Postable): Tweet[] {
+    if (post instanceof Tweet) { return [post] }
+    // The rest of a thread replies to the tweet before it:
+    if (post instanceof Thread) { return [post.first] }
+    if (post instanceof Digest) { return post.tweets }
+    return []
+}
+
+/** 
+ * Group self-replies into Threads. 
+ * @param tweets must be sorted by timestamp.
+ * @returns Threads and tweets that weren't part of a thread, sorted by timestamp.
+ */
+export function collapseThreads(tweets: Tweet[]): Postable[] {
+    const groups: Tweet[][] = []
+    const groupsByID = new Map<string, Tweet[]>()
+    for (const tweet of tweets) {
+        const parentID = tweet.selfReplyToID
+        let group = parentID ? groupsByID.get(parentID) : undefined
+        if (group) {
+            group.push(tweet)
+        } else {
+            group = [tweet]
+            groups.push(group)
+        }
+        groupsByID.set(tweet.json.id_str, group)
+    }
+
+    const posts = groups.map(group => group.length == 1 ? group[0] : new Thread(group))
+    // Threads take the timestamp of their latest tweet, so may need resorting:
+    return posts.sort(Tweet.sortByTimestamp)
+}
+
+/**
+ * Only return posts that are at least waitMinutes old.
+ * 
+ * Any recent tweet may still grow into a thread. If we posted it now, we'd post
+ * the rest of the thread separately in a later run. Since we resume from the latest
+ * timestamp, we also have to hold back everything newer than the first post we hold back.
+ */
+export function readyPosts(posts: Postable[], waitMinutes: number, now = Date.now()): Postable[] {
+    const cutoff = now - waitMinutes * 60 * 1000
+    const firstTimestamp = (post: Postable) => post instanceof Thread ? post.first.timestamp : post.timestamp
+    // A held-back thread may start before older posts that are otherwise ready:
+    const heldBack = posts.filter(post => post.timestamp > cutoff).map(firstTimestamp)
+    const holdFrom = Math.min(cutoff + 1, ...heldBack)
+    const ready = posts.filter(post => post.timestamp < holdFrom)
+    if (ready.length < posts.length) {
+        logger.info(() => `Waiting for ${posts.length - ready.length} recent tweets/threads to settle before posting.`)
+    }
+    return ready
+}
+
+/** The FeoBlog servers that a timeline gets synced to. */
+interface Servers {
+    primary: string
+    mirrors: string[]
+}
+
+function timelineServers(ctx: SyncContext, timeline: Timeline): Servers {
+    if (timeline.servers) {
+        return {primary: timeline.servers[0], mirrors: timeline.servers.slice(1)}
+    }
+    return {primary: ctx.config.feoblog.server, mirrors: ctx.config.feoblog.mirrors}
+}
+
+interface PostTarget extends Servers {
+    /** A client for the primary server. */
+    fbClient: feoblog.Client
+    userID: feoblog.UserID
+    privKey: feoblog.PrivateKey
+
+    /** Creates a new collector for each tweet's attachments. */
+    newCollector: () => AttachmentCollector
+
+    /** If set, downloads attachments for upcoming tweets while we post the current one. */
+    prefetcher?: Prefetcher
+
+    /** The source we're syncing from. ex: "home" */
+    source: string
+
+    /** Post replies to tweets that we've already posted as Comments on those posts. */
+    replyComments?: boolean
+
+    /** How to lay out each type of tweet. */
+    templates: Templates
+
+    copyCardImages?: boolean
+
+    media: MediaPolicy
+
+    /** How many of the tweets that a reply replies to to show with it. (Fetched just before posting it.) */
+    replyContextDepth: number
+}
+
+/**
+ * Returns a function that creates a collector for each post, per the timeline's attachment policy.
+ * (They share one byte budget, and prefetcher, for the whole run.)
+ */
+function newCollectors(ctx: SyncContext, timeline: Timeline, mediaDir?: string): Pick<PostTarget, "newCollector"|"prefetcher"> {
+    const copy = timeline.attachments
+    if (!copy.tweets && !copy.retweets && !copy.quoteTweets) {
+        return {newCollector: () => new NoOpAttachmentColletor()}
+    }
+
+    const budget = copy.maxBytesPerRun === undefined ? undefined : new ByteBudget(copy.maxBytesPerRun)
+    const options = {mediaDir, cache: ctx.attachmentCache, limiter: ctx.hostLimiter, media: timeline.media, copy, budget}
+    // (Files from an archive are local, so there's no need to prefetch them.)
+    const prefetcher = mediaDir ? undefined : new Prefetcher(options)
+    return {
+        newCollector: () => new Attachments({...options, prefetcher}),
+        prefetcher,
+    }
+}
+
+/** Something we can convert into a FeoBlog Item. */
+interface Postable {
+    readonly url: string
+    readonly timestamp: number
+    /** The IDs of the tweet(s) included in this post. */
+    readonly tweetIDs: string[]
+    toItem(options: ConvertOptions): Promise<feoblog.protobuf.Item>
+}
+
+/**
+ * Post tweets (and their attachments) to FeoBlog, in the order given.
+ *
+ * Attachments for the next few tweets are downloaded while we post the current one,
+ * but items are still posted one at a time, in order. (So we can resume where we left off.)
+ * State (and the attachment cache's index) is saved once at the end, even if posting fails partway through.
+ */
+async function postTweets(ctx: SyncContext, target: PostTarget, newTweets: Postable[]): Promise<void> {
+    try {
+        await postTweetsInOrder(ctx, target, newTweets)
+    } finally {
+        await ctx.state?.flush()
+        await ctx.attachmentCache?.flush()
+        await target.prefetcher?.drop()
+    }
+}
+
+/** How many tweets ahead of the current one we download attachments for. */
+const PREFETCH_TWEETS = 5
 
-    // TODO: There are some opportunities for concurrency here:
-    // 1. Download multiple attachments at once. (in Item.toHTML)
-    // 2. Download multiple tweets' attachments at once?
-    //    ... though this one may conflict w/ tweet backreferences that I'd like to implement later.
-    for (const [index, tweet] of newTweets.entries()) {
-        const collector = timeline.copyAttachments ? new Attachments() : new NoOpAttachmentColletor()
+async function postTweetsInOrder(ctx: SyncContext, target: PostTarget, newTweets: Postable[]): Promise<void> {
+    const {fbClient, userID, privKey} = target
+    const statusLogger = new ThrottledLogger(logger)
+
+    // Catch up mirrors first. If we posted newer items to them first, we'd no longer know they were behind.
+    const mirrors = target.mirrors.map(url => new Mirror(url))
+    if (!ctx.dryRun) {
+        for (const mirror of mirrors) {
+            await mirror.tryBackfill(target.primary, userID)
+        }
+    }
+
+    let prefetched = 0
+    for (const [index, post] of newTweets.entries()) {
+        if (ctx.signal?.aborted) {
+            logger.info(() => `Stopping after ${index} of ${newTweets.length} tweets.`)
+            return
+        }
+
+        // (Including this one, so that its attachments download in parallel.)
+        for (; prefetched <= index + PREFETCH_TWEETS && prefetched < newTweets.length; prefetched++) {
+            await prefetch(ctx, target, newTweets[prefetched])
+        }
+
+        const comment = target.replyComments ? asComment(ctx.state, target.userID.toString(), post) : undefined
+        const tweet = comment ?? post
+        // Comments are shown with the post they reply to, so don't need context:
+        if (!comment) {
+            await fetchReplyContext(ctx, post, target.replyContextDepth)
+        }
+
+        // FeoBlog Comments can't have attachments, so those just link to Twitter's copies:
+        const collector = comment ? new NoOpAttachmentColletor() : target.newCollector()
+        const state = ctx.state
+        const links = state ? (tweetID: string) => state.linkTo(tweetID) : undefined
         await collector.collect(async (attachments) => {
 
             statusLogger.info(() => `Copying tweet ${index} of ${newTweets.length}`)
-            const itemBytes = await errorContext(`While copying tweet: ${tweet.url}`, async () => {
-                return (await tweet.toItem({attachments})).serialize()
+            const item = await errorContext(`While copying tweet: ${tweet.url}`, async () => {
+                return await tweet.toItem({attachments, links, templates: target.templates, copyCardImages: target.copyCardImages, media: target.media})
             })
+
+            if (ctx.dryRun) {
+                await ctx.dryRun.report({userID, url: tweet.url, item, attachments: attachments.attachments})
+                return
+            }
+
+            const itemBytes = item.serialize()
             const sig = privKey.sign(itemBytes)
+
             logger.debug(() => `Copying tweet: ${tweet.url}`)
             await fbClient.putItem(userID, sig, itemBytes)
+            ctx.state?.recordPost(target.source, tweet.tweetIDs, {
+                userID: userID.toString(),
+                signature: sig.toString(),
+                commentOn: comment?.replyTo,
+            })
 
-            for (const attachment of attachments.attachments) {
-                logger.debug(() => `PUT-ting file: ${attachment.name} size: ${attachment.size}`)
-                await attachment.withReader(async (reader) => {
-                    const stream = io.readableStreamFromReader(reader)
-                    await fbClient.putAttachment(userID, sig, attachment.name, attachment.size, stream)
-                })
+            await putAttachments(ctx, fbClient, target.primary, userID, sig, attachments.attachments)
+
+            for (const mirror of mirrors) {
+                await mirror.tryPut(userID, sig, itemBytes, attachments.attachments)
             }
 
         })
     }
 }
 
+/**
+ * Start downloading a post's attachments.
+ *
+ * We render the post to find out which files it needs. Links to tweets posted earlier in this
+ * run may not be in the state file yet, so we'll render it again when it's time to post it.
+ */
+async function prefetch(ctx: SyncContext, target: PostTarget, post: Postable): Promise<void> {
+    const {prefetcher} = target
+    if (!prefetcher) { return }
+    // Comments can't have attachments:
+    if (target.replyComments && asComment(ctx.state, target.userID.toString(), post)) { return }
+
+    try {
+        await post.toItem({attachments: prefetcher.collector(), templates: target.templates, copyCardImages: target.copyCardImages, media: target.media})
+    } catch (error) {
+        // We'll report this when we post it:
+        logger.debug(() => `Error prefetching attachments for ${post.url}: ${error}`)
+    }
+}
+
+/**
+ * If post is a reply to a tweet that we've already posted to FeoBlog, make it a Comment instead.
+ * (Requires a stateFile, to look up where we posted the tweet.)
+ */
+export function asComment(state: SyncState|undefined, userID: string, post: Postable): Comment|undefined {
+    if (!state || !(post instanceof Tweet)) { return undefined }
+    const parentID = post.json.in_reply_to_status_id_str
+    if (!parentID) { return undefined }
+
+    const records = state.posts(parentID)
+    const parent = records.find(it => it.userID === userID) ?? records[0]
+    if (!parent) { return undefined }
+
+    // If the parent was itself posted as a comment, reply to the same post, so the conversation stays in one place:
+    const root = parent.commentOn ?? parent
+    return new Comment(post, {userID: root.userID, signature: root.signature})
+}
+
+/** Upload attachments in parallel. (Up to ctx.hostLimiter's limit for the server.) */
+async function putAttachments(
+    ctx: SyncContext,
+    fbClient: feoblog.Client,
+    /** fbClient's server */
+    server: string,
+    userID: feoblog.UserID,
+    sig: feoblog.Signature,
+    attachments: readonly Attachment[]
+) {
+    const results = await Promise.allSettled(attachments.map(attachment => ctx.hostLimiter.run(server, async () => {
+        logger.debug(() => `PUT-ting file: ${attachment.name} size: ${attachment.size}`)
+        await attachment.withReader(async (reader) => {
+            const stream = io.readableStreamFromReader(reader)
+            await fbClient.putAttachment(userID, sig, attachment.name, attachment.size, stream)
+        })
+    })))
+
+    // Wait for all of them to finish before reporting, so we don't drop() files that are still uploading:
+    for (const result of results) {
+        if (result.status === "rejected") { throw result.reason }
+    }
+}
+
+/** 
+ * Publish the Twitter user's profile as the FeoBlog user's profile, if it has changed.
+ * 
+ * If we're copying the timeline's attachments, the avatar and banner get attached to a separate post,
+ * since FeoBlog profiles can't have attachments. (Only when they change. Otherwise, we
+ * keep linking to the post we already made.)
+ */
+async function syncProfile(timeline: UserTimeline, ctx: SyncContext): Promise<void> {
+    const profile = new TwitterProfile(await ctx.tClient.getUser(timeline.twitterScreenName))
+
+    const servers = timelineServers(ctx, timeline)
+    const fbClient = new feoblog.Client({baseURL: servers.primary})
+    const userID = feoblog.UserID.fromString(timeline.userID)
+
+    const existing = (await fbClient.getProfile(userID))?.item.profile
+    if (existing && profile.matches(existing.display_name, existing.about)) {
+        logger.debug(() => `Profile for @${timeline.twitterScreenName} is up to date`)
+        return
+    }
+
+    if (ctx.dryRun) {
+        logger.info(() => `Dry run: Would update profile for @${timeline.twitterScreenName}:\n${profile.about()}`)
+        return
+    }
+
+    logger.info(() => `Updating profile for @${timeline.twitterScreenName}`)
+    const privKey = await feoblog.PrivateKey.fromString(timeline.password)
+    const mirrors = servers.mirrors.map(url => new Mirror(url))
+
+    let copiedImages: CopiedImage[] = []
+    const previousImages = existing ? profile.copiedImagesIn(existing.about) : undefined
+    const copyImages = shouldCopy(timeline.attachments, "tweets", timeline.twitterScreenName)
+    if (copyImages && previousImages) {
+        logger.debug(() => `Profile images for @${timeline.twitterScreenName} haven't changed`)
+        copiedImages = previousImages
+    } else if (copyImages) {
+        const images: Attachment[] = []
+        try {
+            for (const image of profile.images) {
+                try {
+                    images.push(await Attachment.fromURL(new URL(image.url), {fileName: image.fileName, cache: ctx.attachmentCache}))
+                } catch (error) {
+                    // The profile still links to the original:
+                    logger.warning(() => `Couldn't copy ${image.url}, linking to it instead: ${error}`)
+                }
+            }
+
+            if (images.length > 0) {
+                // Don't put this post after tweets that haven't been synced yet, or we'd skip them.
+                // (Tweet timestamps are in whole seconds.)
+                const latest = await getLatestTimestamp(fbClient, userID)
+                const timestamp = latest ? latest + 1 : Date.now()
+                const body = [
+                    `Profile images for [@${timeline.twitterScreenName}](${profile.url}):`,
+                    ...images.map(it => `![${it.name}](${it.markdownPath})`),
+                ].join("\n\n")
+                const title = "Updated profile images"
+
+                const itemBytes = makeItem(timestamp, body, {attachments: images}, title).serialize()
+                const sig = privKey.sign(itemBytes)
+                await fbClient.putItem(userID, sig, itemBytes)
+                await putAttachments(ctx, fbClient, servers.primary, userID, sig, images)
+                for (const mirror of mirrors) {
+                    await mirror.tryPut(userID, sig, itemBytes, images)
+                }
+
+                for (const image of images) {
+                    copiedImages.push({name: image.name, path: `/u/${userID}/i/${sig}/${image.markdownPath}`})
+                }
+            }
+        } finally {
+            for (const image of images) { await image.drop() }
+            await ctx.attachmentCache?.flush()
+        }
+    }
+
+    const item = new feoblog.protobuf.Item({timestamp_ms_utc: Date.now()})
+    // Keep any other profile settings. (ex: follows)
+    item.profile = existing ?? new feoblog.protobuf.Profile()
+    item.profile.display_name = profile.displayName
+    item.profile.about = profile.about(copiedImages)
+
+    const itemBytes = item.serialize()
+    const sig = privKey.sign(itemBytes)
+    await fbClient.putItem(userID, sig, itemBytes)
+    for (const mirror of mirrors) {
+        await mirror.tryPut(userID, sig, itemBytes, [])
+    }
+}
+
+/** Run forever, syncing each timeline on its own interval. */
+async function daemon(options: MainOptions): Promise<void> {
+    const signal = shutdownSignal()
+    // Don't block on rate limits. The scheduler will reschedule that timeline and move on:
+    const ctx = await loadContext(options, {waitForRateLimit: false})
+    ctx.signal = signal
+
+    const {config} = ctx
+    const interval = (timeline: Timeline) => timeline.intervalMinutes ?? config.daemon.intervalMinutes
+    const jobs: Job[] = []
+
+    const home = config.twitter.homeTimeline
+    if (home) {
+        jobs.push({name: "home", intervalMinutes: interval(home), run: () => syncHomeTimeline(options, ctx)})
+    }
+    const likes = config.twitter.likes
+    if (likes) {
+        jobs.push({name: "likes", intervalMinutes: interval(likes), run: () => syncLikes(options, ctx)})
+    }
+    for (const list of config.twitter.lists ?? []) {
+        jobs.push({name: `list:${listName(list)}`, intervalMinutes: interval(list), run: () => syncList(list, options, ctx)})
+    }
+    for (const timeline of config.twitter.userTimelines ?? []) {
+        jobs.push({
+            name: userTimelineSource(timeline),
+            intervalMinutes: interval(timeline),
+            run: () => syncUserTimeline(timeline, options, ctx),
+        })
+    }
+
+    const scheduler = new Scheduler(jobs, {
+        jitterMinutes: config.daemon.jitterMinutes,
+        statusPort: config.daemon.statusPort,
+        signal,
+    })
+    await scheduler.run()
+    await ctx.dryRun?.close()
+}
+
+/** Import tweets from an offline Twitter archive into a configured user timeline. */
+async function importArchive(options: ImportArchiveOptions, archivePath: string): Promise<void> {
+    const ctx = await loadContext(options)
+    const {config} = ctx
+
+    await Archive.with(archivePath, async (archive) => {
+        const account = await archive.account()
+        const screenName = options.screenName ?? account.screen_name
+        const timeline = config.twitter.userTimelines?.find(
+            it => it.twitterScreenName.toLowerCase() === screenName.toLowerCase()
+        )
+        if (!timeline) {
+            throw new Error(`No twitter.userTimelines entry found for @${screenName}`)
+        }
+
+        logger.info(() => `Importing archive for @${account.screen_name} into timeline for @${timeline.twitterScreenName}`)
+        const servers = timelineServers(ctx, timeline)
+        const fbClient = new feoblog.Client({baseURL: servers.primary})
+        const userID = feoblog.UserID.fromString(timeline.userID)
+
+        // Archives overlap w/ what we've already synced (and with themselves, when
+        // re-imported), so we can't just resume from the latest timestamp:
+        const existing = await getPostTimestamps(fbClient, userID)
+
+        const filters = new Filters(timeline.filters)
+        const newTweets: Tweet[] = []
+        for await (const tweetJSON of archive.tweets()) {
+            const tweet = new Tweet(tweetJSON)
+            if (existing.has(tweet.timestamp)) { continue }
+            if (ctx.state?.hasPosted(tweet.json.id_str, timeline.userID)) { continue }
+            if (timeline.skipReplies && tweet.type == "reply") { continue }
+            // Archives don't include retweeted_status, just the "RT @user:" text:
+            if (timeline.skipRetweets && tweet.json.full_text.startsWith("RT @")) { continue }
+            if (!passesFilters(filters, tweet)) { continue }
+
+            newTweets.push(tweet)
+        }
+
+        logger.info(() => `Found ${newTweets.length} new tweets`)
+        newTweets.sort(Tweet.sortByTimestamp)
+        cacheStatuses(ctx, newTweets, timeline.replyContextDepth)
+
+        // The archive is the authoritative source for media, don't fetch it from Twitter:
+        const mediaDir = await archive.mediaDir()
+        if (timeline.attachments.tweets && !mediaDir) {
+            logger.warning("No media directory found in archive. Attachments will be linked, not copied.")
+        }
+
+        const privKey = await feoblog.PrivateKey.fromString(timeline.password)
+        const collectors = mediaDir ? newCollectors(ctx, timeline, mediaDir) : {newCollector: () => new NoOpAttachmentColletor()}
+        const source = userTimelineSource(timeline)
+        const target = {...servers, ...collectors, fbClient, userID, privKey, source, templates: timeline.templates, copyCardImages: timeline.copyCardImages, media: timeline.media, replyContextDepth: timeline.replyContextDepth}
+        await postTweets(ctx, target, newTweets)
+    })
+    await ctx.dryRun?.close()
+}
+
+/**
+ * Export a user's tweets to Markdown & JSON files in a local directory.
+ * 
+ * If the user has a configured userTimeline, uses its settings. (skipReplies, filters, etc.)
+ */
+async function exportTweets(options: ExportOptions, screenName: string, outDir: string): Promise<void> {
+    const config = await loadConfig(options.config)
+    const tClient = new twitter.Client(config.twitter)
+    const cache = await openCache(config)
+    const timeline = config.twitter.userTimelines?.find(
+        it => it.twitterScreenName.toLowerCase() === screenName.toLowerCase()
+    )
+
+    const out = await Export.open(outDir)
+    const sinceID = out.sinceID
+    logger.info(() => `Exporting tweets for @${screenName} to ${outDir}` + (sinceID ? ` since ${sinceID}` : ""))
+
+    const filters = new Filters(timeline?.filters ?? [])
+    const timelineOptions = {
+        skipReplies: timeline?.skipReplies ?? false,
+        skipRetweets: timeline?.skipRetweets ?? false,
+        sinceID,
+    }
+    // Read all new tweets, so that we export the oldest first, and resume after them next time:
+    const newTweets: Tweet[] = []
+    for await (const tweetJSON of tClient.userTimeline(screenName, timelineOptions)) {
+        const tweet = new Tweet(tweetJSON)
+        if (out.has(tweet.json.id_str)) { continue }
+        if (!passesFilters(filters, tweet)) { continue }
+
+        newTweets.push(tweet)
+        if (newTweets.length >= MAX_USER_TIMELINE_TWEETS) { break }
+    }
+    newTweets.sort(Tweet.sortByTimestamp)
+    if (newTweets.length > options.maxTweets) {
+        logger.info(() => `Exporting the oldest ${options.maxTweets} of ${newTweets.length} new tweets. Re-run to export more.`)
+        newTweets.splice(options.maxTweets)
+    }
+
+    const statusLogger = new ThrottledLogger(logger)
+    try {
+        for (const [index, tweet] of newTweets.entries()) {
+            statusLogger.info(() => `Exporting tweet ${index} of ${newTweets.length}`)
+            await new Attachments({cache, media: timeline?.media}).collect(async (attachments) => {
+                const markdown = await errorContext(`While exporting tweet: ${tweet.url}`, async () => {
+                    return await tweet.toMarkdown({attachments, templates: timeline?.templates, media: timeline?.media})
+                })
+                await out.write({json: tweet.json, markdown, attachments: attachments.attachments})
+            })
+        }
+    } finally {
+        await cache?.flush()
+    }
+
+    await out.writeIndex(json => new Tweet(json).summaryText)
+    logger.info(() => `Exported ${newTweets.length} new tweets`)
+}
+
+async function getPostTimestamps(client: feoblog.Client, userID: feoblog.UserID): Promise<Set<number>> {
+    const timestamps = new Set<number>()
+    for await(const entry of client.getUserItems(userID)) {
+        if (entry.item_type != feoblog.protobuf.ItemType.POST) {
+            continue
+        }
+        timestamps.add(entry.timestamp_ms_utc)
+    }
+    return timestamps
+}
+
 /** Add some error context when something fails:  */
 async function errorContext<T>(message: string, callback: () => Promise<T>): Promise<T> {
     try {
@@ -237,9 +1099,6 @@ async function example(options: GlobalOptions, url: string) {
     const collector = new NoOpAttachmentColletor()
 
     await collector.collect(async (attachments) =>  {
-        console.log("Would be converted to this HTML:")
-        console.log(await tweet.toHTML({attachments}))
-    
         console.log("Would produce this Markdown:")
         console.log()
     
@@ -256,12 +1115,15 @@ export class Tweet {
     user: User
     timestamp: number
 
+    /** If this is a reply, the tweets it replies to that we've fetched, oldest first. */
+    context: Tweet[] = []
+
     constructor(public json: twitter.TweetJSON) {
         this.user = new User(this.json.user)
         this.timestamp = Date.parse(json.created_at).valueOf()
     }
 
-    static sortByTimestamp(a: Tweet, b: Tweet) {
+    static sortByTimestamp(a: {timestamp: number}, b: {timestamp: number}) {
         return a.timestamp - b.timestamp
     }
 
@@ -284,6 +1146,14 @@ export class Tweet {
         return "simple"
     }
 
+    /** If this tweet is a reply to the same user, the ID of the tweet it replies to. */
+    get selfReplyToID(): string|undefined {
+        const replyTo = this.json.in_reply_to_status_id_str
+        if (!replyTo) { return undefined }
+        if (this.json.in_reply_to_user_id_str !== this.json.user.id_str) { return undefined }
+        return replyTo
+    }
+
     get retweetedTweet(): Tweet|null {
         if (this.json.retweeted_status) {
             return new Tweet(this.json.retweeted_status)
@@ -298,134 +1168,284 @@ export class Tweet {
         return null
     }
 
-    async toHTML(options: ConvertOptions): Promise<string> {
-        const rt = this.retweetedTweet
-        if (rt) {
-            return [
-                `<p>${this.user.toHTML()} <a href="${this.url}">retweeted</a>:`,
-                `<blockquote>`,
-                await rt.toHTML({...options, attachments: options.attachments.forRetweet()}),
-                `</blockquote>`
-            ].join("")
-        }
-
-        const lines = [
-            `<p>${this.user.toHTML()} <a href="${this.url}">wrote</a>:`,
-        ]
-        
-        if (this.json.in_reply_to_status_id_str) {
-            const statusID = this.json.in_reply_to_status_id_str
-            const replyTo = this.json.in_reply_to_screen_name!
-            const replyToURL = `https://twitter.com/${replyTo}`
-            const replyToTweetURL = `${replyToURL}/status/${statusID}`
-            lines[0] = [
-                `<p>${this.user.toHTML()} <a href="${this.url}">replied</a>`
-                + ` to a <a href="${replyToTweetURL}">tweet</a> by <a href="${replyToURL}">@${replyTo}</a>:`,
-            ].join("")
-        }
-
-        lines.push(`<blockquote>`)
-        lines.push(`<p>${this.getTextAsHTML()}`)
+    /** The tweets this replies to (see: context), as nested blockquotes. */
+    private async contextMarkdown(md: MarkdownWriter, options: ConvertOptions): Promise<string> {
+        const parentOptions = {...options, attachments: options.attachments.forQuoteTweet()}
+        let quote: MarkdownWriter|undefined = undefined
+        for (const parent of this.context) {
+            const next = md.nested()
+            if (quote) { next.quote(quote) }
+            await parent.writeMarkdown(next, parentOptions)
+            quote = next
+        }
+        if (!quote) { return "" }
+
+        const out = md.nested()
+        out.quote(quote)
+        return out.content
+    }
+
+    /** The tweet's text, media, poll, and link preview, as a blockquote. */
+    private async bodyMarkdown(md: MarkdownWriter, options: ConvertOptions): Promise<string> {
+        const quote = md.nested()
+        quote.paragraph(this.getTextAsMarkdown(quote, options.links))
+        quote.paragraph(await this.mediaMarkdown(quote, options))
+        quote.paragraph(await this.pollMarkdown(quote, options))
+        quote.paragraph(await this.linkCardMarkdown(quote, options))
+
+        const out = md.nested()
+        out.quote(quote)
+        return out.content
+    }
 
+    private async mediaMarkdown(md: MarkdownWriter, options: ConvertOptions): Promise<string> {
+        const out = md.nested()
         for (const media of this.json.extended_entities?.media || []) {
+            const {imgSrc, linkHref, prefix} = await this.addMedia(media, options)
+            const alt = media.ext_alt_text ?? ""
+            out.paragraph(`${prefix}${out.link(out.image(imgSrc, alt), linkHref)}`)
+            if (alt) {
+                out.paragraph(out.text(await imageDescription(alt, options.templates)))
+            }
+        }
+        return out.content
+    }
 
-            // This is always a still image:
-            const imgSrc = await options.attachments.tryAddURL(media.media_url_https, this.url)
+    private async pollMarkdown(md: MarkdownWriter, options: ConvertOptions): Promise<string> {
+        const poll = this.poll
+        if (!poll) { return "" }
 
-            // We might link this to a movie if it exists:
-            let linkHref = imgSrc
-            let prefix = ""
+        const out = md.nested()
+        out.list((await pollChoices(poll, options.templates)).map(it => out.text(it)))
+        out.paragraph(out.text(await pollStatus(poll, options.templates)))
+        return out.content
+    }
 
-            if (media.video_info) {
-                const variants = media.video_info.variants
-                variants.sort((a, b) => (b.bitrate || 0) - (a.bitrate || 0))
-                const variant = variants[0]
-                if (variant) {
-                    linkHref = await options.attachments.tryAddURL(variant.url, this.url)
-                    prefix = "Video: "
-                }
-            }
+    private async linkCardMarkdown(md: MarkdownWriter, options: ConvertOptions): Promise<string> {
+        const link = this.linkCard
+        if (!link) { return "" }
+        const {card, href} = link
 
-            lines.push(`<p>${prefix}<a href="${linkHref}"><img src="${imgSrc}"></a>`)
+        const out = md.nested()
+        const imgSrc = await this.cardImage(card, options)
+        if (imgSrc) {
+            out.paragraph(out.link(out.image(imgSrc, card.imageAlt), href))
         }
 
-        lines.push(`</blockquote>`)
+        const lines = [`**${out.link(out.text(card.title), href)}**`]
+        if (card.description) { lines.push(out.text(card.description)) }
+        if (card.domain) { lines.push(out.text(card.domain)) }
+        out.paragraph(lines.join("  \n"))
+        return out.content
+    }
+
+    /** The poll in this tweet, if any. */
+    get poll(): Poll|undefined {
+        const card = this.json.card
+        return card ? parsePoll(card) : undefined
+    }
+
+    /** The preview of a link in this tweet, if any. */
+    get linkCard(): {card: LinkCard, href: string}|undefined {
+        const json = this.json.card
+        const card = json ? parseLinkCard(json) : undefined
+        if (!json || !card) { return undefined }
+
+        // The card's URL is a short URL, but we'd rather link the real one:
+        const meta = this.json.entities?.urls.find(it => it.url === json.url)
+        return {card, href: meta?.expanded_url ?? json.url}
+    }
+
+    /** Where to find a link card's image. (Copying it, if options.copyCardImages) */
+    private async cardImage(card: LinkCard, options: ConvertOptions): Promise<string|undefined> {
+        if (!card.imageURL) { return undefined }
+        if (!options.copyCardImages) { return card.imageURL }
+        return (await options.attachments.tryAddURL(card.imageURL, this.url)).url
+    }
 
+    /** The label, followed by the quoted tweet. (If there is one.) */
+    private async quoteTweetMarkdown(md: MarkdownWriter, options: ConvertOptions, label: string): Promise<string> {
         const qt = this.quotedTweet
-        if (qt) {
-            // let qHTML = qt.toHTML()
-            // if (qHTML.startsWith("<p>")) {
-            //     qHTML = qHTML.substr(3)
-            // }
-            // lines.push(`<p>In reply to:\n<br>${qHTML}`)
+        if (!qt) { return "" }
 
-            // The above still seems to result in a new paragraph in markdown, what's up with that.
-            // May as well just:
-            lines.push("<p>with quote tweet:")
-            lines.push(await qt.toHTML({...options, attachments: options.attachments.forQuoteTweet()}))
+        const out = md.nested()
+        out.paragraph(md.text(label))
+        await qt.writeMarkdown(out, {...options, attachments: options.attachments.forQuoteTweet()})
+        return out.content
+    }
 
+    /**
+     * Collect a media entity's attachment(s).
+     * @returns where to find the (still) image, and where to link to for the full media.
+     */
+    private async addMedia(media: twitter.Media, options: ConvertOptions): Promise<{imgSrc: string, linkHref: string, prefix: string}> {
+        const policy = options.media ?? {}
+
+        // This is always a still image:
+        const image = imageURLs(media, policy)
+        const added = await options.attachments.tryAddURL(image.url, this.url, image.smaller)
+        const imgSrc = added.url
+
+        // We might link this to a movie if it exists, or to the full-size image if we downscaled it:
+        let linkHref = image.original ?? (added.smaller ? image.url : imgSrc)
+        let prefix = ""
+
+        if (media.video_info) {
+            const [variant, ...smaller] = videoVariants(media, policy)
+            if (variant) {
+                linkHref = (await options.attachments.tryAddURL(variant.url, this.url, smaller.map(it => it.url))).url
+                prefix = "Video: "
+            }
         }
 
-        const html = lines.join("")
-        return html
+        return {imgSrc, linkHref, prefix}
     }
 
-    // the twitter full_text can include short URLs like https://t.co/shortCode
-    // when there is embedded media, or quote tweets. This removes those,
-    // since we're going to render them anyway.
-    // This also replaces short URLs with full URLs.
+    /**
+     * The tweet's text, as plain text.
+     * 
+     * Short (https://t.co/) URLs are replaced with the full URLs. Ones for media
+     * and quote tweets are removed, since we display those separately.
+     */
     getText(): string {
-        let text = this.json.full_text
+        return this.textSpans().map(it => it.text).join("")
+    }
 
-        // remove quote-tweet URLs, they're redundant with what we display:
-        const qt = this.quotedTweet
-        if (qt) {
-            const shortURL = this.findQTShortURL()
-            if (!shortURL) {
-                logger.warning(() => `No URL for quote tweet: ${this.url} ${qt.url}`)
-                logger.warning(() => `entities: ${JSON.stringify(this.json.entities, null, 4)}`)
-                logger.warning(() => `text: ${text}`)
-                logger.warning(() => "Continuing without deleting the URL.")
-            } else {
-                text = text.replaceAll(shortURL, "")
+    /** Split the text into plain text, and the parts we link. (URLs, @mentions, #hashtags, $symbols) */
+    textSpans(): TextSpan[] {
+        // Tests, and maybe some very old tweets, don't have entities:
+        if (!this.json.entities) { return this.regexSpans() }
+
+        // Entity indices are by code point, so we can't just index into the (UTF-16) string:
+        const chars = Array.from(decodeEntities(this.json.full_text))
+        const entities = this.textEntities().sort((a, b) => a.indices[0] - b.indices[0])
+
+        const spans: TextSpan[] = []
+        let pos = 0
+        for (const entity of entities) {
+            const found = locateEntity(chars, entity, pos)
+            if (!found) {
+                logger.warning(() => `Couldn't find "${entity.literal}" in the text of ${this.url}`)
+                continue
+            }
+            const [start, end] = found
+            if (start > pos) {
+                spans.push({text: chars.slice(pos, start).join("")})
+            }
+            const span = entity.toSpan(chars.slice(start, end).join(""))
+            if (span) { spans.push(span) }
+            pos = end
+        }
+        const rest = chars.slice(pos).join("")
+        if (rest) { spans.push({text: rest}) }
+
+        // Removing a media or quote tweet URL from the end leaves trailing whitespace:
+        const last = spans[spans.length - 1]
+        if (last && !last.href) {
+            last.text = last.text.trimEnd()
+            if (!last.text) { spans.pop() }
+        }
+
+        return spans
+    }
+
+    /** Everything in the text that we link, or remove. */
+    private textEntities(): TextEntity[] {
+        const entities: TextEntity[] = []
+        const json = this.json
+
+        const qtStatusID = this.quotedStatusID()
+        let foundQT = false
+        for (const meta of json.entities?.urls ?? []) {
+            const tweetID = this.statusIDFromURL(meta.expanded_url)
+            if (qtStatusID && tweetID === qtStatusID) {
+                // Remove quote-tweet URLs, they're redundant with what we display:
+                foundQT = true
+                entities.push({indices: meta.indices, literal: meta.url, toSpan: () => undefined})
+                continue
             }
+            const href = meta.expanded_url
+            entities.push({indices: meta.indices, literal: meta.url, toSpan: () => ({text: href, href, tweetID})})
+        }
+        if (qtStatusID && !foundQT && !json.quoted_status_permalink) {
+            logger.warning(() => `No URL for quote tweet: ${this.url} ${this.quotedTweet?.url}`)
+            logger.warning(() => `entities: ${JSON.stringify(json.entities, null, 4)}`)
+            logger.warning(() => `text: ${json.full_text}`)
+            logger.warning(() => "Continuing without deleting the URL.")
         }
 
-        for (const urlMeta of this.json.entities?.urls || []) {
-            text = text.replaceAll(urlMeta.url, urlMeta.expanded_url)
+        // Remove media links. We'll display & link them in mediaMarkdown().
+        const mediaURLs = new Set<string>()
+        for (const media of json.extended_entities?.media ?? []) {
+            if (mediaURLs.has(media.url)) { continue }
+            mediaURLs.add(media.url)
+            entities.push({indices: media.indices, literal: media.url, toSpan: () => undefined})
         }
 
-        // Remove media links. We'll display & link them in toHTML().
-        for (const media of this.json.extended_entities?.media || []) {
-            text = text.replaceAll(media.url, "")
+        for (const mention of json.entities?.user_mentions ?? []) {
+            const href = `https://twitter.com/${mention.screen_name}`
+            entities.push({indices: mention.indices, literal: `@${mention.screen_name}`, toSpan: (text) => ({text, href})})
+        }
+        for (const tag of json.entities?.hashtags ?? []) {
+            const href = `https://twitter.com/hashtag/${encodeURIComponent(tag.text)}`
+            entities.push({indices: tag.indices, literal: `#${tag.text}`, toSpan: (text) => ({text, href})})
+        }
+        for (const symbol of json.entities?.symbols ?? []) {
+            const href = `https://twitter.com/search?q=${encodeURIComponent("$" + symbol.text)}`
+            entities.push({indices: symbol.indices, literal: `$${symbol.text}`, toSpan: (text) => ({text, href})})
         }
-        
-        return text
+
+        return entities
     }
 
-    // Quoted tweets contain a (shortened) URL of the quoted tweet at the end of their text.
-    // This lets us find it, so we can remove it.
-    private findQTShortURL(): string|undefined {
+    /** The ID of the quoted tweet, if any. */
+    private quotedStatusID(): string|undefined {
         const qt = this.quotedTweet
-        if (!qt) return undefined;
+        if (!qt) return undefined
 
-        // You can't just use simple string matches.
+        // You can't just use simple string matches to find its URL in the text.
         // 1. Sometimes the entity URL contains a ?get=parameter
         // 2. Sometimes the user has changed their display name, so the URL
         //    inside the tweet contains an old name which no longer matches
         //    what's returned by the API.
         // Instead, rely on the globally unique status ID to find the URL.
-
         const statusID = this.statusIDFromURL(qt.url)
         if (!statusID) {
             // This would seem to indicate Twitter has broken their API, so fail hard:
             throw new Error(`Tweet ${this.url} has quote tweet URL (${qt.url}) which is not a status URL!?`)
         }
+        return statusID
+    }
+
+    /** Without entities, fall back to finding URLs and @mentions with regular expressions. */
+    private regexSpans(): TextSpan[] {
+        const text = decodeEntities(this.json.full_text)
+        const links: {start: number, span: TextSpan}[] = []
+        for (const match of text.matchAll(URL_PAT)) {
+            const url = match[0]
+            links.push({start: match.index!, span: {text: url, href: url, tweetID: this.statusIDFromURL(url)}})
+        }
+        for (const match of text.matchAll(MENTION_PAT)) {
+            const start = match.index!
+            // Don't link @mentions inside of URLs:
+            if (links.some(it => start >= it.start && start < it.start + it.span.text.length)) { continue }
+            links.push({start, span: {text: match[0], href: `https://twitter.com/${match[1]}`}})
+        }
+        links.sort((a, b) => a.start - b.start)
 
-        const meta = this.json.entities?.urls.find(it => this.statusIDFromURL(it.expanded_url) === statusID)
-        if (meta) return meta.url
-        
-        return undefined
+        const spans: TextSpan[] = []
+        let pos = 0
+        for (const link of links) {
+            if (link.start > pos) {
+                spans.push({text: text.substring(pos, link.start)})
+            }
+            spans.push(link.span)
+            pos = link.start + link.span.text.length
+        }
+        if (pos < text.length) {
+            spans.push({text: text.substring(pos)})
+        }
+        return spans
     }
 
     private statusIDFromURL(url: string): string|undefined {
@@ -436,101 +1456,347 @@ export class Tweet {
 
     private static STATUS_PAT = /\/status\/(\d+)/i
 
-    getTextAsHTML(): string {
-        let text = this.getText()
-        
-        // Could break URLs. Hmm. Not sure what we can do here.
-        // Maybe only quote them at the beginning of words?   TODO
-        // .replaceAll("&", "&amp;")
-        
-        text = text.replaceAll("<", "&lt;")
-
-        // Link URLs:
-        text = replaceAll(text, URL_PAT, (match) => {
-            const url = match[0]
-            return `<a href="${url}">${url}</a>`
-        })
+    getTextAsMarkdown(md: MarkdownWriter, links?: TweetLinks): string {
+        return this.textSpans().map(span => {
+            const text = md.text(span.text)
+            if (!span.href) { return text }
+            if (span.tweetID) { return tweetLinkMarkdown(md, span.tweetID, span.href, text, links) }
+            return md.link(text, span.href)
+        }).join("")
+    }
+
+    get url(): string {
+        return `https://twitter.com/${this.json.user.screen_name}/status/${this.json.id_str}`
+    }
+
+    get tweetIDs(): string[] { return [this.json.id_str] }
 
-        // Link Mentions
-        text = replaceAll(text, MENTION_PAT, (match) => {
-            const userName = match[1]
-            return `<a href="https://twitter.com/${userName}">@${userName}</a>`
+    /** A plain-text summary of this tweet. (For retweets, the retweeted text.) */
+    get summaryText(): string {
+        return (this.retweetedTweet ?? this).getText()
+    }
+
+    async toMarkdown(options: ConvertOptions): Promise<string> {
+        const md = MarkdownWriter.create()
+        await this.writeMarkdown(md, options)
+        return md.toString()
+    }
+
+    /** Writes this tweet as Markdown, laid out by the template for its type. */
+    async writeMarkdown(md: MarkdownWriter, options: ConvertOptions): Promise<void> {
+        const template = (options.templates ?? DEFAULT_TEMPLATES)[this.type]
+        md.paragraph(await this.renderMarkdown(md, template, options))
+    }
 
+    /**
+     * Render a template with this tweet's placeholders.
+     * @param extra values for placeholders that aren't about this tweet alone. (ex: a thread's tweets)
+     */
+    async renderMarkdown(
+        md: MarkdownWriter,
+        template: string,
+        options: ConvertOptions,
+        extra: Record<string, () => Promise<string>> = {},
+    ): Promise<string> {
+        return await renderTemplate(template, (name, label) => {
+            if (Object.hasOwn(extra, name)) { return extra[name]() }
+            return this.templateValue(md, name, label, options)
         })
+    }
+
+    /** The Markdown to replace a template placeholder with. See: PLACEHOLDERS */
+    private async templateValue(md: MarkdownWriter, name: string, label: string|undefined, options: ConvertOptions): Promise<string> {
+        const json = this.json
+        switch (name) {
+            case "user": return this.user.toMarkdown(md)
+            case "screenName": return md.text(json.user.screen_name)
+            case "name": return md.text(json.user.name)
+            case "url": return this.url
+            case "link": return tweetLinkMarkdown(md, json.id_str, this.url, md.text(label ?? "tweet"), options.links)
+            case "date": return new Date(this.timestamp).toISOString().substring(0, 10)
+            case "timestamp": return new Date(this.timestamp).toISOString()
+            case "text": return this.getTextAsMarkdown(md, options.links)
+            case "media": return await this.mediaMarkdown(md, options)
+            case "body": return await this.bodyMarkdown(md, options)
+            case "context": return await this.contextMarkdown(md, options)
+            case "poll": return await this.pollMarkdown(md, options)
+            case "card": return await this.linkCardMarkdown(md, options)
+            case "likes": return `${json.favorite_count ?? 0}`
+            case "retweets": return `${json.retweet_count ?? 0}`
+            case "quoteTweet": return await this.quoteTweetMarkdown(md, options, label ?? "")
+        }
+
+        const replyToID = json.in_reply_to_status_id_str
+        const replyTo = json.in_reply_to_screen_name
+        if (name === "replyTo") {
+            if (!replyToID || !replyTo) { return "" }
+            const replyToTweetURL = `https://twitter.com/${replyTo}/status/${replyToID}`
+            return tweetLinkMarkdown(md, replyToID, replyToTweetURL, md.text(label ?? "tweet"), options.links)
+        }
+        if (name === "replyToUser") {
+            if (!replyTo) { return "" }
+            return md.link(md.text(`@${replyTo}`), `https://twitter.com/${replyTo}`)
+        }
 
-        // Fix line returns last, so as not to mess with whitespace matching in our regexes:
-        return text.replaceAll("\n", "\n<br>")
+        if (name === "retweet") {
+            const rt = this.retweetedTweet
+            if (!rt) { return "" }
+            const quote = md.nested()
+            await rt.writeMarkdown(quote, {...options, attachments: options.attachments.forRetweet()})
+            const out = md.nested()
+            out.quote(quote)
+            return out.content
+        }
 
+        throw new Error(`Unknown template placeholder: ${name}`)
     }
 
-    get url(): string {
-        return `https://twitter.com/${this.json.user.screen_name}/status/${this.json.id_str}`
+    async toItem(options: ConvertOptions): Promise<feoblog.protobuf.Item> {
+        return makeItem(this.timestamp, await this.toMarkdown(options), options.attachments)
+    }
+
+}
+
+/** 
+ * A user's thread of self-replies, which we post as a single Item.
+ */
+export class Thread {
+    constructor(readonly tweets: Tweet[]) {
+        if (tweets.length == 0) {
+            throw new Error("A Thread requires at least one tweet")
+        }
     }
 
+    get first(): Tweet { return this.tweets[0] }
+    get last(): Tweet { return this.tweets[this.tweets.length - 1] }
+
+    get url(): string { return this.first.url }
+
+    get tweetIDs(): string[] { return this.tweets.map(it => it.json.id_str) }
+
+    /**
+     * The timestamp of the latest tweet in the thread.
+     * 
+     * We resume syncing from the latest timestamp, so using the first tweet's timestamp
+     * would re-sync the rest of the thread.
+     */
+    get timestamp(): number { return this.last.timestamp }
+
     async toMarkdown(options: ConvertOptions): Promise<string> {
-        return htmlToMarkdown(await this.toHTML(options))
+        const md = MarkdownWriter.create()
+        const templates = options.templates ?? DEFAULT_TEMPLATES
+        const first = this.first
+        const template = first.json.in_reply_to_status_id_str ? templates.threadReply : templates.thread
+        const thread = async () => {
+            const out = md.nested()
+            for (const tweet of this.tweets) {
+                out.paragraph(await tweet.renderMarkdown(out, templates.threadTweet, options))
+            }
+            return out.content
+        }
+        md.paragraph(await first.renderMarkdown(md, template, options, {thread}))
+        return md.toString()
     }
 
     async toItem(options: ConvertOptions): Promise<feoblog.protobuf.Item> {
-        const item = new feoblog.protobuf.Item({
-            timestamp_ms_utc: this.timestamp,
-            // I didn't see TZ offsets in the twitter JSON data, so UTC for everyone.
-        })
+        return makeItem(this.timestamp, await this.toMarkdown(options), options.attachments)
+    }
+}
 
-        item.post = new feoblog.protobuf.Post({
-            body: await this.toMarkdown(options)
+/**
+ * A reply to a tweet that we've already posted, which we post as a FeoBlog Comment on that post.
+ */
+export class Comment {
+    constructor(readonly tweet: Tweet, readonly replyTo: PostRecord) {}
+
+    get url(): string { return this.tweet.url }
+    get timestamp(): number { return this.tweet.timestamp }
+    get tweetIDs(): string[] { return this.tweet.tweetIDs }
+
+    async toMarkdown(options: ConvertOptions): Promise<string> {
+        const md = MarkdownWriter.create()
+        const template = (options.templates ?? DEFAULT_TEMPLATES).comment
+        md.paragraph(await this.tweet.renderMarkdown(md, template, options))
+        return md.toString()
+    }
+
+    async toItem(options: ConvertOptions): Promise<feoblog.protobuf.Item> {
+        const item = new feoblog.protobuf.Item({timestamp_ms_utc: this.timestamp})
+        item.comment = new feoblog.protobuf.Comment({
+            reply_to: new feoblog.protobuf.ReplyRef({
+                user_id: new feoblog.protobuf.UserID({bytes: feoblog.UserID.fromString(this.replyTo.userID).bytes}),
+                signature: new feoblog.protobuf.Signature({bytes: feoblog.Signature.fromString(this.replyTo.signature).bytes}),
+                item_type: feoblog.protobuf.ItemType.POST,
+            }),
+            text: await this.toMarkdown(options),
         })
+        return item
+    }
+}
 
-        if (options.attachments.attachments.length > 0) {
-            item.post.attachments = new feoblog.protobuf.Attachments({
-                file: options.attachments.attachments.map((a) => {
-                    return new feoblog.protobuf.File({
-                        hash: a.hash,
-                        size: a.size,
-                        name: a.name,
-                    })
-                }),
-            })
+/**
+ * Many tweets, from a single window of time (ex: an hour or day), posted as one Item.
+ */
+export class Digest {
+    readonly tweets: Tweet[] = []
+
+    /**
+     * @param start inclusive, in ms since the epoch (UTC).
+     * @param end exclusive.
+     */
+    constructor(readonly start: number, readonly end: number) {}
+
+    get url(): string { return this.tweets[0]?.url ?? "" }
+
+    get tweetIDs(): string[] { return this.tweets.map(it => it.json.id_str) }
+
+    /**
+     * The end of the window. (Minus 1ms, because we resume from tweets *after* the
+     * latest timestamp, and a tweet could be posted at exactly the start of the next window.)
+     */
+    get timestamp(): number { return this.end - 1 }
+
+    get title(): string {
+        const start = new Date(this.start).toISOString()
+        const day = start.substring(0, 10)
+        if (this.end - this.start > 60 * 60 * 1000) {
+            return `Tweets for ${day}`
         }
+        const end = new Date(this.end).toISOString()
+        return `Tweets for ${day} ${start.substring(11, 16)}-${end.substring(11, 16)} UTC`
+    }
 
-        return item
+    async toMarkdown(options: ConvertOptions): Promise<string> {
+        const md = MarkdownWriter.create()
+        const template = (options.templates ?? DEFAULT_TEMPLATES).digest
+        md.paragraph(await renderTemplate(template, (name) => this.templateValue(md, name, options)))
+        return md.toString()
+    }
+
+    /** The Markdown to replace a template placeholder with. See: DIGEST_PLACEHOLDERS */
+    private async templateValue(md: MarkdownWriter, name: string, options: ConvertOptions): Promise<string> {
+        const out = md.nested()
+        switch (name) {
+            case "count": return `${this.tweets.length}`
+            case "summary":
+                out.orderedList(this.tweets.map(tweet => {
+                    const snippet = truncate(tweet.summaryText, 80)
+                    return `${out.link(out.text(`@${tweet.user.json.screen_name}`), tweet.url)}: ${out.text(snippet)}`
+                }))
+                return out.content
+            case "tweets":
+                for (const [index, tweet] of this.tweets.entries()) {
+                    out.heading(2, out.text(`${index + 1}. @${tweet.user.json.screen_name}`))
+                    await tweet.writeMarkdown(out, options)
+                }
+                return out.content
+        }
+        throw new Error(`Unknown template placeholder: ${name}`)
     }
 
+    async toItem(options: ConvertOptions): Promise<feoblog.protobuf.Item> {
+        return makeItem(this.timestamp, await this.toMarkdown(options), options.attachments, this.title)
+    }
+}
+
+function makeItem(timestamp: number, body: string, attachments: Pick<AttachmentCollector, "attachments">, title?: string): feoblog.protobuf.Item {
+    const item = new feoblog.protobuf.Item({
+        timestamp_ms_utc: timestamp,
+        // I didn't see TZ offsets in the twitter JSON data, so UTC for everyone.
+    })
+
+    item.post = new feoblog.protobuf.Post({ title, body })
+
+    if (attachments.attachments.length > 0) {
+        item.post.attachments = new feoblog.protobuf.Attachments({
+            file: attachments.attachments.map((a) => {
+                return new feoblog.protobuf.File({
+                    hash: a.hash,
+                    size: a.size,
+                    name: a.name,
+                })
+            }),
+        })
+    }
+
+    return item
 }
 
 
 interface ConvertOptions {
     /** Collects attachments to attach to the Post. */
     attachments: AttachmentCollector
+
+    /** Finds where we've already posted tweets to FeoBlog, so we can link there. */
+    links?: TweetLinks
+
+    /** How to lay out each type of tweet. (Default: DEFAULT_TEMPLATES) */
+    templates?: Templates
+
+    /** Copy link preview images as attachments, instead of linking to Twitter's copies. */
+    copyCardImages?: boolean
+
+    /** Which versions of images and videos to use. (Default: Twitter's default image size, highest-bitrate video) */
+    media?: MediaPolicy
 }
 
-// Replace all non-overlapping regexes with some other value.
-function replaceAll(text: string, pat: RegExp, mapper: (match: RegExpMatchArray) => string): string {
-    const matches = [... text.matchAll(pat)].reverse()
-    for (const match of matches) {
-        text = replaceMatch(text, match, mapper(match))
+/** Returns a FeoBlog URL for a tweet ID, if we've posted that tweet. */
+type TweetLinks = (tweetID: string) => string|undefined
+
+/**
+ * Link to a tweet. If we've already copied it to FeoBlog, link to that copy, since
+ * Twitter links may not work forever. The Twitter link is kept as a secondary link.
+ */
+function tweetLinkMarkdown(md: MarkdownWriter, tweetID: string, twitterURL: string, markdown: string, links?: TweetLinks): string {
+    const localURL = links?.(tweetID)
+    if (!localURL) {
+        return md.link(markdown, twitterURL)
     }
+    return `${md.link(markdown, localURL)} (${md.link("Twitter", twitterURL)})`
+}
 
-    return text  
+/** Part of a tweet's text. If it has an href, we link it. */
+interface TextSpan {
+    text: string
+    href?: string
+    /** Set if href is a link to a tweet. */
+    tweetID?: string
 }
 
-// Really? There's not a built-in way to do this?
-function replaceMatch(original: string, match: RegExpMatchArray, newValue: string) {
-    if (match.index === undefined) {
-        // When can this be undefined? Why does TypeScript say it can be?
-        throw {
-            error: "No match index",
-            match
-        }
+/** Something that Twitter found in a tweet's text. (See: twitter.Entities) */
+interface TextEntity {
+    indices: [number, number]
+    /** The text we expect to find at indices. */
+    literal: string
+    /** Given the text at indices, returns what to replace it with. (Or undefined to remove it.) */
+    toSpan: (text: string) => TextSpan|undefined
+}
+
+/**
+ * Find where an entity is in a tweet's text (as code points).
+ * 
+ * Indices are usually right, but we double-check, since bad indices would garble the text.
+ * (ex: archives sometimes disagree w/ the API about them.) If they're wrong, we search
+ * for the entity's text instead, starting at `from`.
+ */
+function locateEntity(chars: string[], entity: TextEntity, from: number): [number, number]|undefined {
+    const start = Number(entity.indices[0])
+    const end = Number(entity.indices[1])
+    const literal = entity.literal.toLowerCase()
+    if (start >= from && chars.slice(start, end).join("").toLowerCase() === literal) {
+        return [start, end]
     }
 
-    const start = match.index 
-    const len = match[0].length
-    return (
-        original.substr(0, start)
-        + newValue
-        + original.substr(start + len)
-    )
+    const rest = chars.slice(from).join("")
+    const index = rest.toLowerCase().indexOf(literal)
+    if (index < 0) { return undefined }
+    const found = from + Array.from(rest.substring(0, index)).length
+    return [found, found + Array.from(entity.literal).length]
+}
+
+/** Decode the HTML entities that Twitter puts in tweet text. (Even in the JSON API.) */
+function decodeEntities(text: string): string {
+    return text.replaceAll("&lt;", "<").replaceAll("&gt;", ">").replaceAll("&amp;", "&")
 }
 
 // Note: can't use \b before @ because @ is not a "word character", so does not make a word boundary.
@@ -547,14 +1813,14 @@ class User {
         return !this.json.protected
     }
 
-    toHTML(): string {
+    toMarkdown(md: MarkdownWriter): string {
         const name = this.json.name
         const screenName = this.json.screen_name
-        let html =`<a href="${this.url}">@${screenName}</a>`
+        let markdown = md.link(md.text(`@${screenName}`), this.url)
         if (name && name.toLowerCase() != screenName.toLowerCase()) {
-            html += ` ("${this.json.name}")`
+            markdown += ` ("${md.text(name)}")`
         }
-        return html
+        return markdown
     }
 
     get url() {
@@ -606,6 +1872,9 @@ const CLI_OPTIONS = (
         collect: true,
         value: incLogLevel(1)
     })
+    .globalOption<{dryRun: boolean}>("--dry-run", "Show what would be posted to FeoBlog, but don't post it")
+    .globalOption<{dryRunJson: string}>("--dry-run-json <file:string>", "Like --dry-run, but write JSON lines to a file. (Use - for stdout)")
+    .globalOption<{maxPerHost: number}>("--maxPerHost <count:number>", "Max # of attachments to download or upload at once, per server", {default: 4})
     .option<{maxTweets: number}>("--maxTweets", "Max # of tweets to read from Twitter", {default: 100})
     .action(main)
 )
@@ -616,8 +1885,47 @@ CLI_OPTIONS.command("example")
     .arguments<[url: string]>("<url:string>")
     .action(example)
 
+CLI_OPTIONS.command("daemon")
+    .description("Keep running, and periodically sync each timeline")
+    .option<{maxTweets: number}>("--maxTweets", "Max # of tweets to read from Twitter", {default: 100})
+    .action(daemon)
+
+CLI_OPTIONS.command("follows")
+    .description("Follow the FeoBlog users of the Twitter users you follow, from the homeTimeline user")
+    .action(follows)
+
+CLI_OPTIONS.command("import-archive")
+    .description("Import tweets from a Twitter archive (.zip or extracted directory)")
+    .option<{screenName: string}>("--screenName", "Import into the userTimeline for this user. (Default: the archive's account)")
+    .arguments<[archive: string]>("<archive:string>")
+    .action(importArchive)
+
+CLI_OPTIONS.command("export")
+    .description("Export a user's tweets to Markdown and JSON files in a directory. Re-run to export new tweets")
+    .option<{maxTweets: number}>("--maxTweets", "Max # of tweets to export, oldest first", {default: 100})
+    .arguments<[screenName: string, outDir: string]>("<screenName:string> <outDir:string>")
+    .action(exportTweets)
+
+const CACHE_COMMAND = new cliffy.Command<void>()
+    .description("Manage the attachment cache")
+CACHE_COMMAND.command("gc")
+    .description("Evict files until the cache is within its maxSizeMB, and clean up stray files")
+    .action(cacheGC)
+CLI_OPTIONS.command("cache", CACHE_COMMAND)
+
 interface GlobalOptions {
     config: string
+    dryRun?: boolean
+    dryRunJson?: string
+    maxPerHost: number
+}
+
+interface ExportOptions extends GlobalOptions {
+    maxTweets: number
+}
+
+interface ImportArchiveOptions extends GlobalOptions {
+    screenName?: string
 }
 
 interface MainOptions extends GlobalOptions {
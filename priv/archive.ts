@@ -0,0 +1,161 @@
+import { log, path, zip } from "./deps.ts"
+import { TweetJSON, UserJSON } from "./twitter.ts"
+
+const logger = log.getLogger()
+
+/**
+ * Reads tweets from an offline Twitter data archive.
+ * 
+ * See: https://help.twitter.com/en/managing-your-account/how-to-download-your-twitter-archive
+ * 
+ * The archive can be either the .zip file that Twitter provides, or a directory
+ * it has been extracted into. Either way, we expect to find:
+ *  * data/account.js
+ *  * data/tweets.js (and maybe tweets-part1.js, ...)
+ *  * data/tweets_media/
+ */
+export class Archive {
+
+    /**
+     * Open an archive. If it's a .zip file, it's extracted into a temp directory.
+     * You must call .close() to clean that up. (Or use Archive.with())
+     */
+    static async open(archivePath: string): Promise<Archive> {
+        const info = await Deno.stat(archivePath)
+        if (info.isDirectory) {
+            return new Archive(archivePath)
+        }
+
+        const tmpDir = await Deno.makeTempDir({prefix: "feotweet-archive-"})
+        logger.info(() => `Extracting ${archivePath}`)
+        const result = await zip.decompress(archivePath, tmpDir)
+        if (!result) {
+            await Deno.remove(tmpDir, {recursive: true})
+            throw new Error(`Could not extract archive: ${archivePath}`)
+        }
+        return new Archive(tmpDir, tmpDir)
+    }
+
+    /** Open an archive, and make sure it's cleaned up when the callback finishes. */
+    static async with<T>(archivePath: string, callback: (archive: Archive) => Promise<T>): Promise<T> {
+        const archive = await Archive.open(archivePath)
+        try {
+            return await callback(archive)
+        } finally {
+            await archive.close()
+        }
+    }
+
+    private constructor(
+        readonly dir: string,
+        /** A temp directory we must delete when we're done. */
+        private tmpDir?: string,
+    ) {}
+
+    async close() {
+        if (!this.tmpDir) { return }
+        await Deno.remove(this.tmpDir, {recursive: true})
+        this.tmpDir = undefined
+    }
+
+    private get dataDir() { return path.join(this.dir, "data") }
+
+    /** The directory holding the archive's copies of tweet media. */
+    async mediaDir(): Promise<string|undefined> {
+        // Older archives used "tweet_media".
+        for (const name of ["tweets_media", "tweet_media"]) {
+            const dir = path.join(this.dataDir, name)
+            if (await isDir(dir)) { return dir }
+        }
+        return undefined
+    }
+
+    /** The account which this archive belongs to. */
+    async account(): Promise<UserJSON> {
+        const entries = await this.readJS("account.js") as {account: AccountJSON}[]
+        const account = entries[0]?.account
+        if (!account) {
+            throw new Error(`No account found in archive: ${this.dir}`)
+        }
+
+        return {
+            id_str: account.accountId,
+            name: account.accountDisplayName || account.username,
+            screen_name: account.username,
+            // We're reading from an archive, not the API, so we can't know. 
+            // Since you've gone to the trouble to export it, we assume you want it public.
+            protected: false,
+        }
+    }
+
+    /** 
+     * Yield all tweets in the archive, in the order they appear in the archive.
+     * (Which is not necessarily chronological.)
+     */
+    async * tweets(): AsyncGenerator<TweetJSON> {
+        const user = await this.account()
+        for (const fileName of await this.tweetFiles()) {
+            const entries = await this.readJS(fileName) as ArchivedTweet[]
+            for (const entry of entries) {
+                // Newer archives wrap each tweet in {tweet: {...}}
+                const json = "tweet" in entry ? entry.tweet : entry
+                // ... and they don't include the user, since it's always the same:
+                yield {...json, user}
+            }
+        }
+    }
+
+    private async tweetFiles(): Promise<string[]> {
+        const files: string[] = []
+        for await (const entry of Deno.readDir(this.dataDir)) {
+            if (!entry.isFile) { continue }
+            if (TWEET_FILE_PAT.exec(entry.name)) { files.push(entry.name) }
+        }
+
+        if (files.length == 0) {
+            throw new Error(`No tweets.js found in archive: ${this.dir}`)
+        }
+
+        return files.sort()
+    }
+
+    /**
+     * Archive data is stored as JS that assigns JSON to a global. ex:
+     * window.YTD.tweets.part0 = [ ... ]
+     */
+    private async readJS(fileName: string): Promise<unknown[]> {
+        const filePath = path.join(this.dataDir, fileName)
+        const text = await Deno.readTextFile(filePath)
+        const start = text.indexOf("=")
+        if (start < 0) {
+            throw new Error(`Unexpected file format: ${filePath}`)
+        }
+
+        const json = JSON.parse(text.substring(start + 1))
+        if (!Array.isArray(json)) {
+            throw new Error(`Expected an array in ${filePath}`)
+        }
+        return json
+    }
+}
+
+// Matches tweets.js, tweets-part1.js, and the older tweet.js
+const TWEET_FILE_PAT = /^tweets?(-part\d+)?\.js$/
+
+type ArchivedTweetJSON = Omit<TweetJSON, "user">
+type ArchivedTweet = ArchivedTweetJSON | {tweet: ArchivedTweetJSON}
+
+interface AccountJSON {
+    accountId: string
+    username: string
+    accountDisplayName?: string
+}
+
+async function isDir(dirPath: string): Promise<boolean> {
+    try {
+        return (await Deno.stat(dirPath)).isDirectory
+    } catch (error) {
+        if (error instanceof Deno.errors.NotFound) { return false }
+        throw error
+    }
+}
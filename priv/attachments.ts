@@ -1,4 +1,8 @@
 import { bytes, hash, io, ioUtil, log, path } from "./deps.ts";
+import { AttachmentCache } from "./cache.ts"
+import { AttachmentPolicy, MediaPolicy } from "./config.ts"
+import { canStripMetadata, SNIFF_BYTES, sniffType, stripMetadata, withExtension } from "./filetypes.ts"
+import { HostLimiter } from "./limiter.ts"
 
 const logger = log.getLogger()
 
@@ -7,9 +11,10 @@ export interface AttachmentCollector {
     readonly attachments: readonly Attachment[]
 
     /** Add a URL to the collected attachments.
-     * @returns a new URL to use instead to access the attachment.
+     * @param smaller URLs of smaller versions of the file, to try if it's too big to copy.
+     * @returns a new URL to use instead to access the attachment, and whether it's a smaller version.
      */
-    tryAddURL(fileURL: string, tweetURL: string): Promise<string>
+    tryAddURL(fileURL: string, tweetURL: string, smaller?: string[]): Promise<AddedURL>
 
     /** Collects attachments.  Automatically cleans up attachments at the end of its call block. */
     collect<T>(callback: (attachments: AttachmentCollector) => Promise<T>): Promise<T>
@@ -29,6 +34,14 @@ export interface AttachmentCollector {
 }
 
 
+export interface AddedURL {
+    /** The URL to use to access the attachment. */
+    url: string
+
+    /** Set if the file was too big, so we copied one of the smaller versions instead. */
+    smaller?: boolean
+}
+
 export class NoOpAttachmentColletor implements AttachmentCollector {
 
     readonly attachments: Attachment[] = []
@@ -42,8 +55,8 @@ export class NoOpAttachmentColletor implements AttachmentCollector {
     }
 
     // deno-lint-ignore require-await
-    async tryAddURL(url: string): Promise<string> {
-        return url
+    async tryAddURL(url: string): Promise<AddedURL> {
+        return {url}
     }
 
     async drop(): Promise<void> {}
@@ -57,6 +70,10 @@ export class Attachments implements AttachmentCollector {
 
     private _attachments: Attachment[] = []
     private static noOp = new NoOpAttachmentColletor()
+    private retweets = new NestedAttachments(this, "retweets")
+    private quoteTweets = new NestedAttachments(this, "quoteTweets")
+
+    constructor(private options: AttachmentsOptions = {}) {}
 
     get attachments(): readonly Attachment[] { return this._attachments }
 
@@ -68,11 +85,15 @@ export class Attachments implements AttachmentCollector {
         }
     }
 
-    private async add(attachment: Attachment) {
+    /**
+     * @returns the attachment as added. Use its markdownPath, since it may have been
+     *   renamed, or replaced with an identical file we already had.
+     */
+    private async add(attachment: Attachment): Promise<Attachment> {
         for (const a of this._attachments) {
             if (a === attachment) {
                 // already added exactly this object:
-                return
+                return a
             }
 
             if (a.name != attachment.name) { continue }
@@ -81,42 +102,137 @@ export class Attachments implements AttachmentCollector {
                 // This attachment is already added via another object.
                 // Don't add a duplicate, but do clean up the duplicate temp file:
                 await attachment.drop()
-                return
-            } else {
-                throw `Error: Tried to add duplicate file name "${a.name}" with different hashes.`
+                return a
             }
+
+            // A different file with the same name. (ex: "image.jpg" from two sites.) Give it a unique one:
+            const renamed = attachment.renamed(uniqueName(attachment))
+            logger.debug(() => `Renamed duplicate file name "${a.name}" to "${renamed.name}"`)
+            return await this.add(renamed)
         }
 
         this._attachments.push(attachment)
+        this.options.budget?.spend(attachment.size)
+        return attachment
     }
 
     private async addURL(url: string): Promise<string> {
-        const a = await Attachment.fromURL(new URL(url))
-        await this.add(a)
-        return a.markdownPath
+        const {cache, limiter, prefetcher} = this.options
+        const maxBytes = this.maxBytes
+
+        const prefetched = prefetcher?.take(url)
+        const a = prefetched ? await prefetched : await Attachment.fromURL(new URL(url), {cache, limiter, maxBytes})
+        // (Prefetched files were checked against the limits at the time. We may have used more since.)
+        if (a.size > maxBytes) {
+            await a.drop()
+            throw new TooLargeError(maxBytes)
+        }
+
+        return (await this.add(a)).markdownPath
     }
 
-    /** Try to download the attachment, but fall back to embedding if we can't. */
-    async tryAddURL(fileURL: string, tweetURL: string) {
+    /** The most we can copy for the next attachment, per options.media. */
+    private get maxBytes(): number {
+        const media = this.options.media ?? {}
+        const used = this._attachments.reduce((sum, it) => sum + it.size, 0)
+        return Math.min(
+            media.maxAttachmentBytes ?? Infinity,
+            (media.maxPostBytes ?? Infinity) - used,
+            this.options.budget?.remaining ?? Infinity,
+        )
+    }
+
+    /** Add a file from options.mediaDir instead of downloading it. */
+    private async addArchiveFile(fileURL: string, tweetURL: string): Promise<string> {
+        const mediaDir = this.options.mediaDir!
+        const statusID = STATUS_PAT.exec(tweetURL)?.[1]
+        const name = path.basename(new URL(fileURL).pathname)
+        if (!statusID) {
+            throw new Error(`Can't find status ID in tweet URL: ${tweetURL}`)
+        }
+
+        // Twitter archives store media as: tweets_media/${statusID}-${fileName}
+        const filePath = path.join(mediaDir, `${statusID}-${name}`)
         try {
-            return await this.addURL(fileURL)
+            await Deno.stat(filePath)
         } catch (error) {
-            if (error instanceof FetchError && error.response.status == 403) {
-                // This can happen when Twitter takes down media that's no longer available.
-                logger.warning(() => `${fileURL} for ${tweetURL} no longer available. Skipping.`)
-                // Still link to the media, even though it's not available.
-                return fileURL
-            }
+            if (!(error instanceof Deno.errors.NotFound)) { throw error }
+            logger.warning(() => `${fileURL} for ${tweetURL} not found in archive. Skipping.`)
+            return fileURL
+        }
 
-            throw error
+        const a = await Attachment.fromFile(name, filePath, this.maxBytes)
+        return (await this.add(a)).markdownPath
+    }
+
+    /**
+     * Try to download the attachment, but fall back to embedding if we can't.
+     * If it's too big, try the smaller versions, then fall back to embedding.
+     */
+    async tryAddURL(fileURL: string, tweetURL: string, smaller: string[] = []) {
+        return await this.tryAddURLFor("tweets", fileURL, tweetURL, smaller)
+    }
+
+    /** tryAddURL(), for a tweet that's included in the post as `kind`. */
+    async tryAddURLFor(kind: TweetKind, fileURL: string, tweetURL: string, smaller: string[] = []): Promise<AddedURL> {
+        if (!this.shouldCopy(kind, tweetURL)) {
+            return {url: fileURL}
         }
+        if (this.maxBytes <= 0) {
+            logger.info(() => `Out of space to copy ${fileURL} for ${tweetURL}. Linking it instead.`)
+            return {url: fileURL}
+        }
+        if (this.options.prefetchOnly) {
+            // (No need to prefetch local files from the archive.)
+            if (!this.options.mediaDir) { this.options.prefetcher?.prefetch(fileURL, this.maxBytes) }
+            return {url: fileURL}
+        }
+
+        // The archive only has one version of each file:
+        const urls = this.options.mediaDir ? [fileURL] : [fileURL, ...smaller]
+
+        for (const url of urls) {
+            try {
+                if (this.options.mediaDir) {
+                    return {url: await this.addArchiveFile(url, tweetURL)}
+                }
+                return {url: await this.addURL(url), smaller: url !== fileURL}
+            } catch (error) {
+                if (error instanceof TooLargeError) {
+                    logger.debug(() => `${url} for ${tweetURL}: ${error.message}`)
+                    continue
+                }
+                if (error instanceof FetchError && error.response.status == 403) {
+                    // This can happen when Twitter takes down media that's no longer available.
+                    logger.warning(() => `${fileURL} for ${tweetURL} no longer available. Skipping.`)
+                    // Still link to the media, even though it's not available.
+                    return {url: fileURL}
+                }
+
+                throw error
+            }
+        }
+
+        logger.info(() => `${fileURL} for ${tweetURL} is too big to copy. Linking it instead.`)
+        return {url: fileURL}
+    }
+
+    /** Does options.copy allow copying attachments for this tweet? */
+    private shouldCopy(kind: TweetKind, tweetURL: string): boolean {
+        // By default, only copy the tweet's own attachments:
+        const copy = this.options.copy ?? {tweets: true, retweets: false, quoteTweets: false}
+        return shouldCopy(copy, kind, USER_PAT.exec(tweetURL)?.[1])
     }
 
-    // I could see having this configurable in the future but for now, things get REALLY big if
-    // you include all the images/movies that someone can retweet. Plus there are questions of
-    // copyright.  Instead, we don't collect them and just reference them.
-    forQuoteTweet() { return Attachments.noOp }
-    forRetweet() { return Attachments.noOp }
+    // Things get REALLY big if you include all the images/movies that someone can retweet.
+    // Plus there are questions of copyright. So unless options.copy says otherwise, we don't
+    // collect them and just reference them.
+    forQuoteTweet(): AttachmentCollector {
+        return this.options.copy?.quoteTweets ? this.quoteTweets : Attachments.noOp
+    }
+    forRetweet(): AttachmentCollector {
+        return this.options.copy?.retweets ? this.retweets : Attachments.noOp
+    }
 
     async drop() {
         for (const a of this._attachments) {
@@ -128,14 +244,154 @@ export class Attachments implements AttachmentCollector {
 }
 
 
+export interface AttachmentsOptions {
+    /**
+     * If set, read media from this directory (ex: a Twitter archive's
+     * data/tweets_media/) instead of fetching it from Twitter's CDN.
+     */
+    mediaDir?: string
+
+    /** If set, reuse files we've already downloaded. */
+    cache?: AttachmentCache
+
+    /** Size limits for the attachments we copy. */
+    media?: MediaPolicy
+
+    /** Which tweets' attachments to copy. (Default: only the main tweets') */
+    copy?: AttachmentPolicy
+
+    /** If set, shared between collectors to limit how much we copy in a run. */
+    budget?: ByteBudget
+
+    /** If set, limits how many files we download from each host at once. */
+    limiter?: HostLimiter
+
+    /** If set, use files it has already started downloading. */
+    prefetcher?: Prefetcher
+
+    /** Don't collect anything, just start downloading files with the prefetcher. */
+    prefetchOnly?: boolean
+}
+
+/** How a tweet is included in a post. (Matches AttachmentPolicy's settings.) */
+type TweetKind = "tweets"|"retweets"|"quoteTweets"
+
+/** Does the policy copy the attachments of a tweet by screenName, included in a post as `kind`? */
+export function shouldCopy(copy: AttachmentPolicy, kind: TweetKind, screenName?: string): boolean {
+    if (!copy[kind]) { return false }
+    if (!copy.fromUsers) { return true }
+    return screenName !== undefined && copy.fromUsers.includes(screenName.toLowerCase())
+}
+
+/**
+ * Collects a retweet's or quote tweet's attachments into the post's Attachments.
+ * (Its parent owns the attachments, so it doesn't drop() them.)
+ */
+class NestedAttachments implements AttachmentCollector {
+    constructor(private parent: Attachments, private kind: TweetKind) {}
+
+    get attachments() { return this.parent.attachments }
+
+    async collect<T>(callback: (attachments: AttachmentCollector) => Promise<T>): Promise<T> {
+        return await callback(this)
+    }
+
+    async tryAddURL(fileURL: string, tweetURL: string, smaller?: string[]): Promise<AddedURL> {
+        return await this.parent.tryAddURLFor(this.kind, fileURL, tweetURL, smaller)
+    }
+
+    async drop(): Promise<void> {}
+
+    forQuoteTweet() { return this.parent.forQuoteTweet() }
+    forRetweet() { return this.parent.forRetweet() }
+}
+
+/**
+ * Downloads attachments for upcoming posts while we're posting the current one.
+ *
+ * Render a post with collector() to start downloading the files it needs. When it's
+ * rendered for real, its Attachments take() those downloads instead of starting new ones.
+ *
+ * You must call drop() to clean up any downloads that weren't taken.
+ */
+export class Prefetcher {
+    private downloads = new Map<string, Promise<Attachment>>()
+
+    /** @param options for the Attachments that will take() our downloads. */
+    constructor(private options: AttachmentsOptions) {}
+
+    /** A collector that only starts downloading a post's attachments. */
+    collector(): AttachmentCollector {
+        return new Attachments({...this.options, prefetcher: this, prefetchOnly: true})
+    }
+
+    /** Start downloading a file, if we haven't already. */
+    prefetch(url: string, maxBytes: number) {
+        if (this.downloads.has(url)) { return }
+
+        const {cache, limiter} = this.options
+        const download = Attachment.fromURL(new URL(url), {cache, limiter, maxBytes})
+        // Errors get handled by whoever take()s it. Until then, don't treat them as unhandled:
+        download.catch(() => {})
+        this.downloads.set(url, download)
+    }
+
+    /** Take ownership of a download, if we started one for this URL. */
+    take(url: string): Promise<Attachment>|undefined {
+        const download = this.downloads.get(url)
+        this.downloads.delete(url)
+        return download
+    }
+
+    async drop() {
+        const downloads = [...this.downloads.values()]
+        this.downloads.clear()
+        for (const download of downloads) {
+            let attachment: Attachment
+            try { attachment = await download }
+            catch { continue } // Failed downloads have no file to clean up.
+            await attachment.drop()
+        }
+    }
+}
+
+/** A limit on how many bytes of attachments we copy, shared between collectors. */
+export class ByteBudget {
+    constructor(private _remaining: number) {}
+
+    get remaining(): number { return this._remaining }
+
+    spend(bytes: number) {
+        this._remaining -= bytes
+    }
+}
+
+const STATUS_PAT = /\/status\/(\d+)/i
+const USER_PAT = /twitter\.com\/(\w+)\/status\//i
+
+export interface FromURLOptions {
+    /** Default: the file part of the URL. */
+    fileName?: string
+
+    /** If set, reuse a copy we've already downloaded. */
+    cache?: AttachmentCache
+
+    /** If the file is bigger than this, throws a TooLargeError. */
+    maxBytes?: number
+
+    /** If set, waits for a free slot for the URL's host before downloading. */
+    limiter?: HostLimiter
+}
+
 /**
  * A single attachment we'll add to an Item 
  * 
  * The attachment is stored in a temp file in case it is large.
  * You must call .drop() to clean it up. (Though Attachments will do this for you.)
  */
-class Attachment {
-    static async fromBytes(name: string, reader: Deno.Reader): Promise<Attachment> {
+export class Attachment {
+    /** @param maxBytes If the file is bigger than this, throws a TooLargeError. */
+    static async fromBytes(name: string, reader: Deno.Reader, maxBytes = Infinity): Promise<Attachment> {
         
         // Would be nice if I could make this private:
         const tmpFile = await Deno.makeTempFile()
@@ -145,23 +401,117 @@ class Attachment {
         const sha512 = hash.createHash("sha512")
         try {
             for await (const chunk of ioUtil.iter(reader)) {
+                fileSize += chunk.length
+                if (fileSize > maxBytes) {
+                    throw new TooLargeError(maxBytes)
+                }
                 sha512.update(chunk)
                 await writeFile.write(chunk)
-                fileSize += chunk.length
             }
-        } finally { 
+        } catch (error) {
             writeFile.close()
+            await Deno.remove(tmpFile)
+            throw error
+        }
+        writeFile.close()
+
+        return await this.prepare(name, tmpFile, sha512.digest(), fileSize)
+    }
+
+    /**
+     * Name the file with the extension for its actual type, and strip metadata from images.
+     * (Takes ownership of tmpFile.)
+     */
+    private static async prepare(name: string, tmpFile: string, digest: ArrayBuffer, size: number): Promise<Attachment> {
+        try {
+            const header = new Uint8Array(SNIFF_BYTES)
+            const file = await Deno.open(tmpFile)
+            let headerSize: number|null
+            try {
+                headerSize = await file.read(header)
+            } finally {
+                file.close()
+            }
+
+            const type = sniffType(header.subarray(0, headerSize ?? 0))
+            if (!type) { return new Attachment(name, tmpFile, digest, size) }
+
+            // (Only images, which we can read into memory.)
+            if (canStripMetadata(type)) {
+                const original = await Deno.readFile(tmpFile)
+                const stripped = stripMetadata(original, type)
+                if (stripped.length < original.length) {
+                    logger.debug(() => `Stripped ${original.length - stripped.length} bytes of metadata from ${name}`)
+                    await Deno.writeFile(tmpFile, stripped)
+                    digest = hash.createHash("sha512").update(stripped).digest()
+                    size = stripped.length
+                }
+            }
+
+            return new Attachment(withExtension(name, type), tmpFile, digest, size)
+        } catch (error) {
+            await Deno.remove(tmpFile)
+            throw error
         }
+    }
 
-        return new Attachment(name, tmpFile, sha512.digest(), fileSize)
+    /** Copy an attachment from a local file. */
+    static async fromFile(name: string, filePath: string, maxBytes = Infinity): Promise<Attachment> {
+        const file = await Deno.open(filePath)
+        try {
+            return await this.fromBytes(name, file, maxBytes)
+        } finally {
+            file.close()
+        }
     }
 
     /**
      * Download an attachment from a URL. 
-     * Its name is the file part of the URL.
+     * Its name is the file part of the URL, unless you give it another.
+     *
+     * If you pass a cache, we'll use its copy of the file (if any), and add the file to it
+     * after downloading.
      */
-    static async fromURL(url: URL): Promise<Attachment> {
+    static async fromURL(url: URL, options: FromURLOptions = {}): Promise<Attachment> {
+        const {cache, maxBytes = Infinity} = options
+        const fileName = options.fileName ?? path.basename(url.pathname)
+        const download = async () => {
+            if (!options.limiter) { return await this.download(url, fileName, maxBytes) }
+            return await options.limiter.run(url, () => this.download(url, fileName, maxBytes))
+        }
+        if (!cache) {
+            return await download()
+        }
+
+        const tmpFile = await Deno.makeTempFile()
+        let cached
+        try {
+            cached = await cache.copyURL(url.href, tmpFile)
+        } catch (error) {
+            await Deno.remove(tmpFile)
+            throw error
+        }
+        if (cached && cached.size <= maxBytes) {
+            logger.debug(() => `Using cached copy of ${url}`)
+            // (Metadata was stripped before caching, so this just names it.)
+            return await this.prepare(fileName, tmpFile, fromHex(cached.hash), cached.size)
+        }
+        await Deno.remove(tmpFile)
+        if (cached) {
+            throw new TooLargeError(maxBytes)
+        }
+
+        const attachment = await download()
+        try {
+            await cache.add(url.href, attachment.tmpFile, {hash: toHex(attachment.hash), size: attachment.size})
+        } catch (error) {
+            // We still have the file, so this needn't stop the sync:
+            logger.warning(() => `Error caching ${url}: ${error}`)
+        }
+        return attachment
+    }
 
+    private static async download(url: URL, fileName: string, maxBytes: number): Promise<Attachment> {
         const response = await fetch(url)
         if (!response.ok) {
             throw new FetchError("Non-OK response", response)
@@ -170,11 +520,16 @@ class Attachment {
             throw new FetchError("Null response body", response)
         }
 
-        const fileName = path.basename(url.pathname)
+        // Don't bother downloading it if we already know it's too big:
+        const length = Number(response.headers.get("content-length") ?? NaN)
+        if (length > maxBytes) {
+            await response.body.cancel()
+            throw new TooLargeError(maxBytes)
+        }
 
         const reader = io.readerFromStreamReader(response.body.getReader())
 
-        return this.fromBytes(fileName, reader)
+        return await this.fromBytes(fileName, reader, maxBytes)
     }
 
     private constructor(
@@ -197,6 +552,11 @@ class Attachment {
         return `Attachment: "${this.name}" at "${this.tmpFile}"`
     }
 
+    /** The same file, with a different name. (Use instead of this one. They share a temp file.) */
+    renamed(name: string): Attachment {
+        return new Attachment(name, this.tmpFile, this.hash.buffer, this.size)
+    }
+
     get markdownPath() { return `files/${this.name}` }
 
     async withReader<T>(callback: (reader: Deno.Reader) => Promise<T>): Promise<T> {
@@ -221,10 +581,38 @@ class Attachment {
     }
 }
 
+/** ex: "image.jpg" -> "image-0123abcd.jpg" */
+function uniqueName(attachment: Attachment): string {
+    const {name} = attachment
+    const dot = name.lastIndexOf(".")
+    const stem = dot > 0 ? name.substring(0, dot) : name
+    const extension = dot > 0 ? name.substring(dot) : ""
+    return `${stem}-${toHex(attachment.hash).substring(0, 8)}${extension}`
+}
+
+/** Hex-encode bytes. (ex: for a SHA-512 hash) */
+export function toHex(bytes: Uint8Array): string {
+    return [...bytes].map(b => b.toString(16).padStart(2, "0")).join("")
+}
+
+function fromHex(hex: string): ArrayBuffer {
+    const bytes = new Uint8Array(hex.length / 2)
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(hex.substr(i * 2, 2), 16)
+    }
+    return bytes.buffer
+}
+
 class FetchError extends Error {
     constructor(message: string, readonly response: Response) {
         super(message)
     }
 }
 
+class TooLargeError extends Error {
+    constructor(readonly maxBytes: number) {
+        super(`File is larger than the limit of ${maxBytes} bytes`)
+    }
+}
+
 
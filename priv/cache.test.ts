@@ -0,0 +1,119 @@
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { AttachmentCache } from "./cache.ts";
+import { path } from "./deps.ts";
+
+/** Run a test with a fresh cache directory, and a file of each size to add to it. */
+async function withCache(
+    maxBytes: number,
+    test: (cache: AttachmentCache, file: (size: number) => Promise<string>, dir: string) => Promise<void>,
+): Promise<void> {
+    const dir = await Deno.makeTempDir({prefix: "feotweet-cache-test-"})
+    try {
+        const file = async (size: number) => {
+            const filePath = path.join(dir, `src-${size}`)
+            await Deno.writeFile(filePath, new Uint8Array(size))
+            return filePath
+        }
+        await test(await AttachmentCache.open(path.join(dir, "cache"), maxBytes), file, path.join(dir, "cache"))
+    } finally {
+        await Deno.remove(dir, {recursive: true})
+    }
+}
+
+/** Let the clock tick, so that files get distinct lastUsed times. */
+function tick(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 5))
+}
+
+Deno.test("Evicts least recently used files first", async () => {
+    await withCache(10, async (cache, file, dir) => {
+        await cache.add("https://example.com/a", await file(4), {hash: "aa", size: 4})
+        await tick()
+        await cache.add("https://example.com/b", await file(4), {hash: "bb", size: 4})
+        await tick()
+
+        // Using "a" makes "b" the least recently used:
+        assertEquals(await cache.copyURL("https://example.com/a", path.join(dir, "..", "copy")), {hash: "aa", size: 4})
+        await tick()
+        await cache.add("https://example.com/c", await file(4), {hash: "cc", size: 4})
+
+        assertEquals([cache.has("aa"), cache.has("bb"), cache.has("cc")], [true, false, true])
+        assertEquals(cache.size, 8)
+        assertEquals(await cache.copyURL("https://example.com/b", path.join(dir, "..", "copy")), undefined)
+    })
+})
+
+Deno.test("Doesn't evict the file being added", async () => {
+    await withCache(10, async (_cache, file, dir) => {
+        // An existing file which (with a skewed clock) was used after now:
+        await Deno.mkdir(path.join(dir, "files"), {recursive: true})
+        await Deno.copyFile(await file(6), path.join(dir, "files", "aa"))
+        await Deno.writeTextFile(path.join(dir, "index.json"), JSON.stringify({
+            version: 1,
+            urls: {"https://example.com/a": "aa"},
+            files: {"aa": {size: 6, lastUsed: Date.now() + 60_000}},
+        }))
+        const cache = await AttachmentCache.open(dir, 10)
+
+        await cache.add("https://example.com/b", await file(6), {hash: "bb", size: 6})
+        assertEquals([cache.has("aa"), cache.has("bb")], [false, true])
+
+        // Files bigger than the whole cache aren't added at all:
+        await cache.add("https://example.com/c", await file(11), {hash: "cc", size: 11})
+        assertEquals([cache.has("bb"), cache.has("cc")], [true, false])
+    })
+})
+
+Deno.test("gc deletes untracked files, and forgets missing ones", async () => {
+    await withCache(100, async (cache, file, dir) => {
+        await cache.add("https://example.com/a", await file(4), {hash: "aa", size: 4})
+        await cache.add("https://example.com/b", await file(5), {hash: "bb", size: 5})
+        await Deno.remove(path.join(dir, "files", "bb"))
+        await Deno.writeFile(path.join(dir, "files", "stray.tmp"), new Uint8Array(3))
+
+        assertEquals(await cache.gc(), {deletedFiles: 1, freedBytes: 3})
+        assertEquals([cache.has("aa"), cache.has("bb")], [true, false])
+        assertEquals(cache.size, 4)
+
+        const files: string[] = []
+        for await (const entry of Deno.readDir(path.join(dir, "files"))) { files.push(entry.name) }
+        assertEquals(files, ["aa"])
+
+        // The index was saved:
+        const reopened = await AttachmentCache.open(dir, 100)
+        assertEquals([reopened.has("aa"), reopened.has("bb")], [true, false])
+    })
+})
+
+Deno.test("copyURL recovers from a missing file", async () => {
+    await withCache(100, async (cache, file, dir) => {
+        await cache.add("https://example.com/a", await file(4), {hash: "aa", size: 4})
+        await Deno.remove(path.join(dir, "files", "aa"))
+
+        const copy = path.join(dir, "..", "copy")
+        assertEquals(await cache.copyURL("https://example.com/a", copy), undefined)
+        assertEquals(cache.has("aa"), false)
+
+        // So the caller can download and add it again:
+        await cache.add("https://example.com/a", await file(4), {hash: "aa", size: 4})
+        assertEquals(await cache.copyURL("https://example.com/a", copy), {hash: "aa", size: 4})
+        assertEquals((await Deno.stat(copy)).size, 4)
+    })
+})
+
+Deno.test("lastUsed is saved by flush()", async () => {
+    await withCache(100, async (cache, file, dir) => {
+        await cache.add("https://example.com/a", await file(4), {hash: "aa", size: 4})
+        const indexFile = path.join(dir, "index.json")
+        const lastUsed = async () => JSON.parse(await Deno.readTextFile(indexFile)).files["aa"].lastUsed
+        const added = await lastUsed()
+        await tick()
+
+        // Cache hits don't rewrite the index:
+        await cache.copyURL("https://example.com/a", path.join(dir, "..", "copy"))
+        assertEquals(await lastUsed(), added)
+
+        await cache.flush()
+        assertEquals(await lastUsed() > added, true)
+    })
+})
@@ -0,0 +1,228 @@
+import { log, path } from "./deps.ts"
+
+const logger = log.getLogger()
+
+/**
+ * An on-disk cache of downloaded attachments, so that re-runs (and tweets that share media)
+ * don't need to download them again.
+ *
+ * Files are stored by the hex of their SHA-512 hash, and an index maps source URLs to hashes.
+ * When the cache grows past maxBytes, the least recently used files are evicted.
+ *
+ *     ${dir}/index.json
+ *     ${dir}/files/${sha512}
+ */
+export class AttachmentCache {
+
+    /** Open (or create) a cache directory. */
+    static async open(dir: string, maxBytes: number): Promise<AttachmentCache> {
+        await Deno.mkdir(path.join(dir, "files"), {recursive: true})
+
+        let index: CacheIndex
+        const indexFile = path.join(dir, "index.json")
+        try {
+            index = JSON.parse(await Deno.readTextFile(indexFile)) as CacheIndex
+        } catch (error) {
+            if (!(error instanceof Deno.errors.NotFound)) {
+                throw new Error(`Error reading file "${indexFile}": ${error}`)
+            }
+            index = {version: CACHE_VERSION, urls: {}, files: {}}
+        }
+        if (index.version !== CACHE_VERSION) {
+            throw new Error(`Unsupported cache version ${index.version} in ${indexFile}`)
+        }
+
+        return new AttachmentCache(dir, maxBytes, index)
+    }
+
+    private constructor(readonly dir: string, readonly maxBytes: number, private index: CacheIndex) {}
+
+    /** Saves are chained, so that concurrent downloads don't write the index at the same time. */
+    private saving = Promise.resolve()
+
+    /** Set when the index has changes that flush() should save. */
+    private dirty = false
+
+    /**
+     * Copy a cached file for this URL to destFile.
+     * Its lastUsed time is updated in memory. Call flush() to save it.
+     * @returns info about the file, or undefined if it's not cached.
+     */
+    async copyURL(url: string, destFile: string): Promise<CachedFile|undefined> {
+        const hash = this.index.urls[url]
+        const file = hash ? this.index.files[hash] : undefined
+        if (!hash || !file) { return undefined }
+
+        try {
+            await Deno.copyFile(this.filePath(hash), destFile)
+        } catch (error) {
+            if (!(error instanceof Deno.errors.NotFound)) { throw error }
+            // Someone removed it out from under us. Forget about it:
+            logger.warning(() => `Cached file for ${url} is missing. Downloading it again.`)
+            delete this.index.files[hash]
+            delete this.index.urls[url]
+            this.dirty = true
+            return undefined
+        }
+
+        file.lastUsed = Date.now()
+        this.dirty = true
+        return {hash, size: file.size}
+    }
+
+    /** Save any changes made since the index was last saved. */
+    async flush(): Promise<void> {
+        if (!this.dirty) { return }
+        await this.save()
+    }
+
+    /** Is a file with this (hex) SHA-512 hash in the cache? */
+    has(hash: string): boolean {
+        return hash in this.index.files
+    }
+
+    /**
+     * Add a file to the cache. (Copies it, so the caller still owns srcFile.)
+     * May evict other files to stay within maxBytes.
+     */
+    async add(url: string, srcFile: string, file: CachedFile): Promise<void> {
+        if (file.size > this.maxBytes) {
+            logger.debug(() => `Not caching ${url}. It's bigger than the whole cache.`)
+            return
+        }
+
+        if (!this.has(file.hash)) {
+            // Copy then rename, so that we never have a partial file under a hash:
+            const tmpFile = await Deno.makeTempFile({dir: path.join(this.dir, "files"), suffix: ".tmp"})
+            await Deno.copyFile(srcFile, tmpFile)
+            await Deno.rename(tmpFile, this.filePath(file.hash))
+        }
+        this.index.files[file.hash] = {size: file.size, lastUsed: Date.now()}
+        this.index.urls[url] = file.hash
+
+        await this.evict(file.hash)
+        await this.save()
+    }
+
+    /** The total size of all cached files. */
+    get size(): number {
+        return Object.values(this.index.files).reduce((sum, it) => sum + it.size, 0)
+    }
+
+    /**
+     * Clean up the cache:
+     *  * Evict files until we're within maxBytes.
+     *  * Delete files that aren't in the index. (ex: from an interrupted add())
+     *  * Forget files that have gone missing.
+     */
+    async gc(): Promise<GCResult> {
+        const result: GCResult = {deletedFiles: 0, freedBytes: 0}
+
+        const filesDir = path.join(this.dir, "files")
+        for await (const entry of Deno.readDir(filesDir)) {
+            if (!entry.isFile || this.has(entry.name)) { continue }
+            const filePath = path.join(filesDir, entry.name)
+            const {size} = await Deno.stat(filePath)
+            await Deno.remove(filePath)
+            result.deletedFiles++
+            result.freedBytes += size
+        }
+
+        for (const hash of Object.keys(this.index.files)) {
+            try {
+                await Deno.stat(this.filePath(hash))
+            } catch (error) {
+                if (!(error instanceof Deno.errors.NotFound)) { throw error }
+                delete this.index.files[hash]
+            }
+        }
+
+        const evicted = await this.evict()
+        result.deletedFiles += evicted.deletedFiles
+        result.freedBytes += evicted.freedBytes
+
+        this.forgetMissingURLs()
+        await this.save()
+        return result
+    }
+
+    /** Delete least recently used files until we're within maxBytes. */
+    private async evict(keepHash?: string): Promise<GCResult> {
+        const result: GCResult = {deletedFiles: 0, freedBytes: 0}
+        let size = this.size
+        if (size <= this.maxBytes) { return result }
+
+        const oldestFirst = Object.entries(this.index.files).sort((a, b) => a[1].lastUsed - b[1].lastUsed)
+        for (const [hash, file] of oldestFirst) {
+            if (size <= this.maxBytes) { break }
+            if (hash === keepHash) { continue }
+
+            try {
+                await Deno.remove(this.filePath(hash))
+            } catch (error) {
+                if (!(error instanceof Deno.errors.NotFound)) { throw error }
+            }
+            delete this.index.files[hash]
+            size -= file.size
+            result.deletedFiles++
+            result.freedBytes += file.size
+        }
+
+        this.forgetMissingURLs()
+        return result
+    }
+
+    private forgetMissingURLs() {
+        for (const [url, hash] of Object.entries(this.index.urls)) {
+            if (!this.has(hash)) { delete this.index.urls[url] }
+        }
+    }
+
+    private filePath(hash: string): string {
+        return path.join(this.dir, "files", hash)
+    }
+
+    private async save() {
+        const save = this.saving.then(() => this.writeIndex())
+        this.saving = save.catch(() => {})
+        await save
+    }
+
+    /** Write to a temp file then rename, so we don't leave a partial file if interrupted. */
+    private async writeIndex() {
+        const indexFile = path.join(this.dir, "index.json")
+        const tmpFile = `${indexFile}.tmp`
+        this.dirty = false
+        await Deno.writeTextFile(tmpFile, JSON.stringify(this.index))
+        await Deno.rename(tmpFile, indexFile)
+    }
+}
+
+export interface CachedFile {
+    /** Hex-encoded SHA-512 */
+    hash: string
+    size: number
+}
+
+export interface GCResult {
+    deletedFiles: number
+    freedBytes: number
+}
+
+const CACHE_VERSION = 1
+
+interface CacheIndex {
+    version: number
+
+    /** Source URL -> hash */
+    urls: Record<string, string>
+
+    /** Hash -> file info */
+    files: Record<string, FileInfo>
+}
+
+interface FileInfo {
+    size: number
+    /** ms since the epoch */
+    lastUsed: number
+}
@@ -0,0 +1,53 @@
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { parseLinkCard, parsePoll } from "./cards.ts";
+import { CardJSON } from "./twitter.ts";
+
+Deno.test("Parse polls", () => {
+    const card: CardJSON = {
+        name: "poll3choice_text_only",
+        url: "https://t.co/poll",
+        binding_values: {
+            choice1_label: {type: "STRING", string_value: "Yes"},
+            choice1_count: {type: "STRING", string_value: "7"},
+            choice2_label: {type: "STRING", string_value: "No"},
+            choice2_count: {type: "STRING", string_value: "3"},
+            choice3_label: {type: "STRING", string_value: "Maybe"},
+            counts_are_final: {type: "BOOLEAN", boolean_value: true},
+            end_datetime_utc: {type: "STRING", string_value: "2021-07-01T00:00:00Z"},
+        }
+    }
+
+    assertEquals(parsePoll(card), {
+        choices: [
+            {label: "Yes", count: 7},
+            {label: "No", count: 3},
+            {label: "Maybe", count: 0},
+        ],
+        final: true,
+        endTime: "2021-07-01T00:00:00Z",
+    })
+    assertEquals(parseLinkCard(card), undefined)
+})
+
+Deno.test("Parse link cards", () => {
+    const card: CardJSON = {
+        name: "summary_large_image",
+        url: "https://t.co/abc",
+        binding_values: {
+            title: {type: "STRING", string_value: "A Page"},
+            description: {type: "STRING", string_value: "About things"},
+            domain: {type: "STRING", string_value: "example.com"},
+            thumbnail_image: {type: "IMAGE", image_value: {url: "https://example.com/small.jpg", width: 100, height: 50}},
+            thumbnail_image_original: {type: "IMAGE", image_value: {url: "https://example.com/big.jpg", width: 1000, height: 500, alt: "A picture"}},
+        }
+    }
+
+    assertEquals(parseLinkCard(card), {
+        title: "A Page",
+        description: "About things",
+        domain: "example.com",
+        imageURL: "https://example.com/big.jpg",
+        imageAlt: "A picture",
+    })
+    assertEquals(parsePoll(card), undefined)
+})
@@ -0,0 +1,85 @@
+import { CardJSON } from "./twitter.ts"
+
+/** A poll, parsed from a tweet's card. */
+export interface Poll {
+    choices: PollChoice[]
+    /** False if the poll is still open, and counts may change. */
+    final: boolean
+    /** When voting ends/ended. (ISO 8601, UTC) */
+    endTime?: string
+}
+
+export interface PollChoice {
+    label: string
+    count: number
+}
+
+/** A preview of a linked web page, parsed from a tweet's card. */
+export interface LinkCard {
+    title: string
+    description?: string
+    /** ex: "example.com" */
+    domain?: string
+    imageURL?: string
+    imageAlt?: string
+}
+
+const POLL_NAME = /^poll(\d)choice/
+
+export function parsePoll(card: CardJSON): Poll|undefined {
+    const match = POLL_NAME.exec(card.name)
+    if (!match) { return undefined }
+
+    const values = card.binding_values
+    const choices: PollChoice[] = []
+    for (let i = 1; i <= Number(match[1]); i++) {
+        const label = values[`choice${i}_label`]?.string_value
+        if (label === undefined) { continue }
+        const count = Number(values[`choice${i}_count`]?.string_value ?? 0)
+        choices.push({label, count})
+    }
+    if (choices.length == 0) { return undefined }
+
+    return {
+        choices,
+        final: values.counts_are_final?.boolean_value ?? false,
+        endTime: values.end_datetime_utc?.string_value,
+    }
+}
+
+const LINK_CARD_NAMES = new Set(["summary", "summary_large_image", "player"])
+
+/** Image sizes, in order of preference. */
+const LINK_CARD_IMAGES = [
+    "photo_image_full_size_original",
+    "thumbnail_image_original",
+    "summary_photo_image_original",
+    "photo_image_full_size_large",
+    "thumbnail_image_large",
+    "thumbnail_image",
+]
+
+export function parseLinkCard(card: CardJSON): LinkCard|undefined {
+    if (!LINK_CARD_NAMES.has(card.name)) { return undefined }
+
+    const values = card.binding_values
+    const title = values.title?.string_value
+    if (!title) { return undefined }
+
+    const linkCard: LinkCard = {title}
+    const description = values.description?.string_value
+    if (description) { linkCard.description = description }
+    const domain = values.vanity_url?.string_value ?? values.domain?.string_value
+    if (domain) { linkCard.domain = domain }
+
+    for (const key of LINK_CARD_IMAGES) {
+        const image = values[key]?.image_value
+        if (image) {
+            linkCard.imageURL = image.url
+            if (image.alt) { linkCard.imageAlt = image.alt }
+            break
+        }
+    }
+
+    return linkCard
+}
@@ -1,9 +1,43 @@
-import {feoblog, toml} from "./deps.ts"
+import {feoblog, path, toml} from "./deps.ts"
+import { textPattern } from "./filters.ts"
+import { checkTemplate, DEFAULT_TEMPLATES, placeholdersFor, Templates } from "./templates.ts"
 
 export interface Config {
     twitter: Twitter
 
     feoblog: FeoBlog
+
+    /**
+     * If set, a file where we record which tweets we've synced where.
+     * (Resolved relative to the config file.)
+     */
+    stateFile?: string
+
+    daemon: Daemon
+
+    /** If set, cache downloaded attachments between runs. */
+    cache?: Cache
+}
+
+/** Settings for the on-disk attachment cache. */
+export interface Cache {
+    /** Where to store cached files. (Resolved relative to the config file.) */
+    dir: string
+
+    /** Evict the least recently used files when the cache grows bigger than this. */
+    maxSizeMB: number
+}
+
+/** Settings for `feotweet daemon` */
+export interface Daemon {
+    /** How often to sync each timeline, unless it sets its own intervalMinutes. */
+    intervalMinutes: number
+
+    /** Add up to this many minutes to each interval, so we don't always hit Twitter at the same time. */
+    jitterMinutes: number
+
+    /** If set, serve a JSON status page at http://127.0.0.1:${statusPort}/ */
+    statusPort?: number
 }
 
 export interface FeoBlog {
@@ -12,6 +46,9 @@ export interface FeoBlog {
      * ex: http://127.0.0.1:8080
      */
     server: string,
+
+    /** Other FeoBlog servers which should get copies of everything we write to `server`. */
+    mirrors: string[]
 }
 
 /**
@@ -26,6 +63,12 @@ export interface Twitter {
     /** If set, sync the logged-in users's home timeline here */
     homeTimeline?: HomeTimeline
 
+    /** If set, sync the logged-in user's likes here */
+    likes?: Likes
+
+    /** Sync each of these Twitter Lists into its own FeoBlog user. */
+    lists?: List[]
+
     userTimelines?: UserTimeline[]
 }
 
@@ -35,16 +78,160 @@ interface FBLogin {
     password: string
 }
 
-export interface HomeTimeline extends FBLogin {
+/** Settings common to every timeline we sync. */
+export interface Timeline extends FBLogin {
+    /** When running as a daemon, how often to sync this timeline. (Default: daemon.intervalMinutes) */
+    intervalMinutes?: number
+
+    /**
+     * If set, overrides feoblog.servers for this timeline.
+     * The first is the primary server, the rest are mirrors.
+     */
+    servers?: string[]
+
+    /** Rules for which tweets to sync. See: Filters */
+    filters: Filter[]
+
+    /** How to lay out each type of tweet. (Defaults to DEFAULT_TEMPLATES) */
+    templates: Templates
+
+    /** For replies, fetch and show up to this many of the tweets they reply to. (Default: 0) */
+    replyContextDepth: number
+
+    /** Which versions of images and videos to use, and limits on copying them. */
+    media: MediaPolicy
+
+    /** Which tweets' attachments to copy into FeoBlog. (The rest are linked.) */
+    attachments: AttachmentPolicy
+}
+
+export interface AttachmentPolicy {
+    /**
+     * Copy the attachments of the tweets we sync.
+     * (Default: copyAttachments for userTimelines, false for other timelines.)
+     */
+    tweets: boolean
+
+    /** Copy the attachments of retweeted tweets. (Default: false) */
+    retweets: boolean
+
+    /** Copy the attachments of quoted tweets, and of tweets shown as reply context. (Default: false) */
+    quoteTweets: boolean
+
+    /** If set, only copy attachments of tweets by these users. (Lowercase screen names.) */
+    fromUsers?: string[]
+
+    /** Link instead of copying once we've copied this much in a single run. */
+    maxBytesPerRun?: number
+}
+
+/** Twitter's named image sizes, largest first. */
+export const IMAGE_SIZES = ["orig", "large", "medium", "small"] as const
+export type ImageSize = typeof IMAGE_SIZES[number]
+
+/**
+ * Media that's bigger than the max sizes is linked instead of copied.
+ * (Images are first downscaled, if a smaller size will fit.)
+ */
+export interface MediaPolicy {
+    /** The largest single attachment we'll copy. */
+    maxAttachmentBytes?: number
+
+    /** The most we'll copy for a single post, across all of its attachments. */
+    maxPostBytes?: number
+
+    /** Prefer video variants with at most this bitrate. (bits/second) */
+    maxVideoBitrate?: number
+
+    /** Prefer video variants that are at most this many pixels on their shorter side. ex: 720 */
+    maxVideoResolution?: number
+
+    /** Which size of images to use. (Default: Twitter's default, which is "medium") */
+    imageSize?: ImageSize
+}
+
+/**
+ * A rule for including/excluding tweets.
+ * All conditions that are set must match for the rule to match.
+ */
+export interface Filter {
+    action: "include"|"exclude"
+
+    /** Used when logging which filter skipped a tweet. */
+    name?: string
+
+    /** A regular expression to match against the tweet text, as users see it. (With URLs expanded.) */
+    text?: string
+    /** Default: false */
+    caseSensitive?: boolean
+
+    /** Language codes. ex: ["en", "de"] */
+    languages?: string[]
+
+    hasMedia?: boolean
+
+    /** Matches retweets of tweets by these screen names. */
+    retweetOf?: string[]
+
+    /** Matches tweets that link to these domains (or their subdomains). */
+    domains?: string[]
+
+    minLikes?: number
+    minRetweets?: number
+}
+
+/** A timeline of tweets from many users, synced into a single FeoBlog user. */
+export interface Feed extends Timeline {
     skipUsers: string[]
 }
 
-export interface UserTimeline extends FBLogin {
+export interface HomeTimeline extends Feed {
+    /** If set, post one digest of tweets per hour/day, instead of one post per tweet. */
+    digest?: DigestWindow
+
+    /** Update this FeoBlog user's follows on every sync. (See also: `feotweet follows`) */
+    syncFollows: boolean
+
+    /**
+     * Maps Twitter screen names (lowercase) to FeoBlog userIDs, for Twitter users that
+     * we follow, which have a FeoBlog presence. (Users in userTimelines are included automatically.)
+     */
+    follows: Record<string,string>
+}
+
+export type DigestWindow = "hour"|"day"
+
+export type Likes = Feed
+
+/** 
+ * A Twitter List, identified either by listID, or by its owner and slug.
+ */
+export interface List extends Feed {
+    listID?: string
+    ownerScreenName?: string
+    slug?: string
+}
+
+export interface UserTimeline extends Timeline {
     twitterScreenName: string
 
     copyAttachments: boolean
+    /** Also copy the images of link previews. (Requires attachments.tweets, which defaults to copyAttachments) */
+    copyCardImages: boolean
     skipReplies: boolean
     skipRetweets: boolean
+
+    /** Post a user's threads of self-replies as a single post. */
+    collapseThreads: boolean
+
+    /** 
+     * When collapsing threads, don't post tweets until they're this old,
+     * in case the thread is still growing.
+     */
+    threadWaitMinutes: number
+
+    /** Publish the Twitter user's name, bio, etc. as the FeoBlog user's profile. */
+    syncProfile: boolean
 }
 
 export async function loadConfig(fileName: string): Promise<Config> {
@@ -64,42 +251,75 @@ export async function loadConfig(fileName: string): Promise<Config> {
             accessTokenKey: requireString("twitter.accessTokenKey", twitter.accessTokenKey),
             accessTokenSecret: requireString("twitter.accessTokenSecret", twitter.accessTokenSecret),
         },
-        feoblog: {
-            server: requireString("feoblog.server", feoblog.server),
-        }
+        feoblog: await requireFeoBlog("feoblog", feoblog),
+        daemon: requireDaemon("daemon", parsed.daemon ?? {}),
     }
 
-    // Make sure we don't use duplicate userIDs, since that can clobber our latest-timestamp logic:
-    const usedUserIDs = new Set<string>()
-    const checkUserID = (userID: string) => {
-        if (usedUserIDs.has(userID)) { throw `UserID ${userID} has been used more than once. `}
-        usedUserIDs.add(userID)
-        return userID
+    if (parsed.stateFile !== undefined) {
+        const stateFile = requireString("stateFile", parsed.stateFile)
+        config.stateFile = path.resolve(path.dirname(fileName), stateFile)
+    }
+
+    if (parsed.cache !== undefined) {
+        config.cache = requireCache("cache", parsed.cache, fileName)
     }
 
     if (twitter.homeTimeline) {
         const ht = requireSection("twitter.homeTimeline", twitter.homeTimeline)
         config.twitter.homeTimeline = {
-            userID: checkUserID(requireUserID("twitter.homeTimeline.userID", ht.userID)),
-            password: await requirePassword("twitter.homeTimeline.password", ht.userID, ht.password),
-            skipUsers: await optionalArray("twitter.homeTimeline.skipUsers", ht.skipUsers, requireScreenName),
+            ...await requireFeed("twitter.homeTimeline", ht),
+            digest: optionalDigestWindow("twitter.homeTimeline.digest", ht.digest),
+            syncFollows: defaultBool("twitter.homeTimeline.syncFollows", ht.syncFollows, false),
+            follows: await optionalFollows("twitter.homeTimeline.follows", ht.follows),
         }
     }
 
+    if (twitter.likes) {
+        config.twitter.likes = await requireFeed("twitter.likes", twitter.likes)
+    }
+
+    if (twitter.lists) {
+        config.twitter.lists = await requireArray("twitter.lists", twitter.lists, requireList)
+    }
+
     if (twitter.userTimelines) {
         config.twitter.userTimelines = await requireArray("twitter.userTimelines", twitter.userTimelines, requireUserTimeline)
-        for (const tl of config.twitter.userTimelines) {
-            checkUserID(tl.userID)
-        }
     }
 
-    if (!config.twitter.homeTimeline && !config.twitter.userTimelines) {
-        throw `Config error: Either twitter.homeTimeline or twitter.userTimelines must be defined or there's nothing to do.`
+    if (!config.twitter.homeTimeline && !config.twitter.likes && !config.twitter.lists && !config.twitter.userTimelines) {
+        throw `Config error: One of twitter.homeTimeline, twitter.likes, twitter.lists, or twitter.userTimelines must be defined or there's nothing to do.`
+    }
+
+    // Without a state file, we resume from each FeoBlog user's latest timestamp, so users can't be shared:
+    if (!config.stateFile) {
+        for (const userID of sharedUserIDs(config)) {
+            throw `UserID ${userID} has been used more than once. (This requires setting a stateFile.)`
+        }
     }
 
     return config
 }
 
+/** FeoBlog userIDs that are used by more than one timeline. */
+export function sharedUserIDs(config: Config): Set<string> {
+    const t = config.twitter
+    const all = [
+        t.homeTimeline?.userID,
+        t.likes?.userID,
+        ...(t.lists ?? []).map(it => it.userID),
+        ...(t.userTimelines ?? []).map(it => it.userID),
+    ]
+
+    const used = new Set<string>()
+    const shared = new Set<string>()
+    for (const userID of all) {
+        if (!userID) { continue }
+        if (used.has(userID)) { shared.add(userID) }
+        used.add(userID)
+    }
+    return shared
+}
+
 function requireSection(name: string, value: unknown) {
     if (typeof value !== "object") {
         throw `Required a section called ${name}, but found ${typeof value}`
@@ -164,19 +384,274 @@ async function optionalArray<T>(name: string, jsonValue: unknown, callback: Valu
     return await requireArray(name, jsonValue, callback)
 }
 
+function requireDaemon(name: string, value: unknown): Daemon {
+    const record = requireSection(name, value)
+
+    return {
+        intervalMinutes: defaultNumber(`${name}.intervalMinutes`, record.intervalMinutes, 30),
+        jitterMinutes: defaultNumber(`${name}.jitterMinutes`, record.jitterMinutes, 5),
+        statusPort: optionalNumber(`${name}.statusPort`, record.statusPort),
+    }
+}
+
+function requireCache(name: string, value: unknown, configFile: string): Cache {
+    const record = requireSection(name, value)
+    const dir = requireString(`${name}.dir`, record.dir)
+    const maxSizeMB = defaultNumber(`${name}.maxSizeMB`, record.maxSizeMB, 1024)
+    if (maxSizeMB <= 0) {
+        throw `${name}.maxSizeMB must be greater than 0`
+    }
+
+    return {
+        dir: path.resolve(path.dirname(configFile), dir),
+        maxSizeMB,
+    }
+}
+
+/** 
+ * Accepts either `server = "..."`, or `servers = [...]` where the first
+ * server is the primary, and the rest are mirrors.
+ */
+async function requireFeoBlog(name: string, record: Record<string,unknown>): Promise<FeoBlog> {
+    if (record.servers === undefined) {
+        return {
+            server: await requireServerURL(`${name}.server`, record.server),
+            mirrors: [],
+        }
+    }
+
+    const servers = await requireServers(`${name}.servers`, record.servers)
+    return {
+        server: servers[0],
+        mirrors: servers.slice(1),
+    }
+}
+
+async function requireServers(name: string, value: unknown): Promise<string[]> {
+    const servers = await requireArray(name, value, requireServerURL)
+    if (servers.length == 0) {
+        throw `Expected at least one server in ${name}`
+    }
+    return servers
+}
+
+// deno-lint-ignore require-await
+async function requireServerURL(name: string, value: unknown): Promise<string> {
+    const url = requireString(name, value)
+    try {
+        new URL(url)
+    } catch (_) {
+        throw `Expected ${name} to be a URL, but was: ${url}`
+    }
+    return url.replace(/\/+$/, "")
+}
+
+/** Each level costs an API call per reply, so don't let it get out of hand. */
+const MAX_REPLY_CONTEXT_DEPTH = 10
+
+/**
+ * Parse the settings common to all timelines.
+ * @param copyTweets the default for attachments.tweets.
+ */
+async function requireTimeline(name: string, record: Record<string,unknown>, copyTweets = false): Promise<Timeline> {
+    const timeline: Timeline = {
+        userID: requireUserID(`${name}.userID`, record.userID),
+        password: await requirePassword(`${name}.password`, record.userID, record.password),
+        intervalMinutes: optionalNumber(`${name}.intervalMinutes`, record.intervalMinutes),
+        filters: await optionalArray(`${name}.filters`, record.filters, requireFilter),
+        templates: optionalTemplates(`${name}.templates`, record.templates),
+        replyContextDepth: defaultNumber(`${name}.replyContextDepth`, record.replyContextDepth, 0),
+        media: optionalMediaPolicy(`${name}.media`, record.media),
+        attachments: await optionalAttachmentPolicy(`${name}.attachments`, record.attachments, copyTweets),
+    }
+
+    if (timeline.replyContextDepth < 0 || timeline.replyContextDepth > MAX_REPLY_CONTEXT_DEPTH) {
+        throw `Expected ${name}.replyContextDepth to be between 0 and ${MAX_REPLY_CONTEXT_DEPTH}`
+    }
+
+    if (record.servers !== undefined) {
+        timeline.servers = await requireServers(`${name}.servers`, record.servers)
+    }
+
+    return timeline
+}
+
+// deno-lint-ignore require-await
+async function requireFilter(name: string, value: unknown): Promise<Filter> {
+    const record = requireSection(name, value)
+
+    const action = record.action ?? "exclude"
+    if (action !== "include" && action !== "exclude") {
+        throw `Expected ${name}.action to be "include" or "exclude", but was: ${action}`
+    }
+
+    const filter: Filter = {action}
+    if (record.name !== undefined) { filter.name = requireString(`${name}.name`, record.name) }
+    if (record.text !== undefined) {
+        filter.text = requireString(`${name}.text`, record.text)
+    }
+    if (record.caseSensitive !== undefined) {
+        filter.caseSensitive = defaultBool(`${name}.caseSensitive`, record.caseSensitive, false)
+    }
+    if (filter.text !== undefined) {
+        try {
+            textPattern(filter.text, filter.caseSensitive)
+        } catch (cause) {
+            throw `Invalid regular expression in ${name}.text: ${cause}`
+        }
+    }
+    if (record.languages !== undefined) { filter.languages = requireStrings(`${name}.languages`, record.languages) }
+    if (record.hasMedia !== undefined) { filter.hasMedia = defaultBool(`${name}.hasMedia`, record.hasMedia, false) }
+    if (record.retweetOf !== undefined) { filter.retweetOf = requireStrings(`${name}.retweetOf`, record.retweetOf) }
+    if (record.domains !== undefined) { filter.domains = requireStrings(`${name}.domains`, record.domains) }
+    filter.minLikes = optionalNumber(`${name}.minLikes`, record.minLikes)
+    filter.minRetweets = optionalNumber(`${name}.minRetweets`, record.minRetweets)
+
+    return filter
+}
+
+function optionalTemplates(name: string, value: unknown): Templates {
+    const templates = {...DEFAULT_TEMPLATES}
+    if (value === undefined) { return templates }
+    const record = requireSection(name, value)
+
+    for (const [type, template] of Object.entries(record)) {
+        if (!Object.hasOwn(DEFAULT_TEMPLATES, type)) {
+            throw `Unknown template type ${name}.${type}. Expected one of: ${Object.keys(DEFAULT_TEMPLATES).join(", ")}`
+        }
+        const text = requireString(`${name}.${type}`, template)
+        const problem = checkTemplate(text, placeholdersFor(type as keyof Templates))
+        if (problem) {
+            throw `Invalid template ${name}.${type}: ${problem}`
+        }
+        templates[type as keyof Templates] = text
+    }
+    return templates
+}
+
+function optionalMediaPolicy(name: string, value: unknown): MediaPolicy {
+    if (value === undefined) { return {} }
+    const record = requireSection(name, value)
+
+    const positive = (key: string) => {
+        const value = optionalNumber(`${name}.${key}`, record[key])
+        if (value !== undefined && value <= 0) {
+            throw `Expected ${name}.${key} to be greater than 0`
+        }
+        return value
+    }
+    const mb = (value: number|undefined) => value === undefined ? undefined : Math.floor(value * 1024 * 1024)
+    const kbps = (value: number|undefined) => value === undefined ? undefined : value * 1000
+
+    const policy: MediaPolicy = {
+        maxAttachmentBytes: mb(positive("maxAttachmentMB")),
+        maxPostBytes: mb(positive("maxPostMB")),
+        maxVideoBitrate: kbps(positive("maxVideoKbps")),
+        maxVideoResolution: positive("maxVideoResolution"),
+    }
+
+    if (record.imageSize !== undefined) {
+        const imageSize = requireString(`${name}.imageSize`, record.imageSize)
+        if (!(IMAGE_SIZES as readonly string[]).includes(imageSize)) {
+            throw `Expected ${name}.imageSize to be one of: ${IMAGE_SIZES.join(", ")}`
+        }
+        policy.imageSize = imageSize as ImageSize
+    }
+
+    return policy
+}
+
+/** @param copyTweets The default for `tweets`. */
+async function optionalAttachmentPolicy(name: string, value: unknown, copyTweets: boolean): Promise<AttachmentPolicy> {
+    const record = value === undefined ? {} : requireSection(name, value)
+
+    const policy: AttachmentPolicy = {
+        tweets: defaultBool(`${name}.tweets`, record.tweets, copyTweets),
+        retweets: defaultBool(`${name}.retweets`, record.retweets, false),
+        quoteTweets: defaultBool(`${name}.quoteTweets`, record.quoteTweets, false),
+    }
+
+    if (record.fromUsers !== undefined) {
+        const users = await requireArray(`${name}.fromUsers`, record.fromUsers, requireScreenName)
+        policy.fromUsers = users.map(it => it.toLowerCase())
+    }
+
+    const maxMB = optionalNumber(`${name}.maxMBPerRun`, record.maxMBPerRun)
+    if (maxMB !== undefined) {
+        if (maxMB <= 0) {
+            throw `Expected ${name}.maxMBPerRun to be greater than 0`
+        }
+        policy.maxBytesPerRun = Math.floor(maxMB * 1024 * 1024)
+    }
+
+    return policy
+}
+
+async function optionalFollows(name: string, value: unknown): Promise<Record<string,string>> {
+    if (value === undefined) { return {} }
+    const record = requireSection(name, value)
+
+    const follows: Record<string,string> = {}
+    for (const [screenName, userID] of Object.entries(record)) {
+        await requireScreenName(`${name}.${screenName}`, screenName)
+        follows[screenName.toLowerCase()] = requireUserID(`${name}.${screenName}`, userID)
+    }
+    return follows
+}
+
+function optionalDigestWindow(name: string, value: unknown): DigestWindow|undefined {
+    if (value === undefined) { return undefined }
+    if (value === "hour" || value === "day") { return value }
+    throw `Expected ${name} to be "hour" or "day", but was: ${value}`
+}
+
+function requireStrings(name: string, value: unknown): string[] {
+    if (!Array.isArray(value)) {
+        throw `Expected ${name} to be an array, but was: ${typeof value}`
+    }
+    return value.map((it, i) => requireString(`${name}[${i}]`, it))
+}
+
+async function requireFeed(name: string, value: unknown): Promise<Feed> {
+    const record = requireSection(name, value)
+
+    return {
+        ...await requireTimeline(name, record),
+        skipUsers: await optionalArray(`${name}.skipUsers`, record.skipUsers, requireScreenName),
+    }
+}
+
 async function requireUserTimeline(name: string, value: unknown): Promise<UserTimeline> {
     const record = requireSection(name, value)
+    const copyAttachments = defaultBool("copyAttachments", record.copyAttachments, false)
 
     return {
+        ...await requireTimeline(name, record, copyAttachments),
         twitterScreenName: requireString("twitterScreenName", record.twitterScreenName),
-        userID: requireUserID("userID", record.userID),
-        password: await requirePassword("password", record.userID, record.password),
-        copyAttachments: defaultBool("copyAttachments", record.copyAttachments, false),
+        copyAttachments,
+        copyCardImages: defaultBool("copyCardImages", record.copyCardImages, false),
         skipReplies: defaultBool("skipReplies", record.skipReplies, false),
         skipRetweets: defaultBool("skipRetweets", record.skipRetweets, false),
+        collapseThreads: defaultBool("collapseThreads", record.collapseThreads, false),
+        threadWaitMinutes: defaultNumber("threadWaitMinutes", record.threadWaitMinutes, 60),
+        syncProfile: defaultBool("syncProfile", record.syncProfile, false),
     }
 }
 
+async function requireList(name: string, value: unknown): Promise<List> {
+    const record = requireSection(name, value)
+    const list: List = await requireFeed(name, record)
+
+    if (record.listID !== undefined) {
+        list.listID = requireString("listID", record.listID)
+    } else {
+        list.ownerScreenName = await requireScreenName("ownerScreenName", record.ownerScreenName)
+        list.slug = requireString("slug", record.slug)
+    }
+
+    return list
+}
+
 // See: https://help.twitter.com/en/managing-your-account/twitter-username-rules
 const TWITTER_SCREEN_NAME_PAT = /^[a-z0-9_]{2,15}$/i
 
@@ -199,6 +674,18 @@ function defaultBool(name: string, value: unknown, defaultVal: boolean): boolean
     throw `Expected ${name} to be a boolean, but was ${typeof value}`
 }
 
+function defaultNumber(name: string, value: unknown, defaultVal: number): number {
+    if (value === undefined) { return defaultVal }
+    if (typeof value === "number") { return value }
+    throw `Expected ${name} to be a number, but was ${typeof value}`
+}
+
+function optionalNumber(name: string, value: unknown): number|undefined {
+    if (value === undefined) { return undefined }
+    if (typeof value === "number") { return value }
+    throw `Expected ${name} to be a number, but was ${typeof value}`
+}
+
 async function loadFile(fileName: string): Promise<string> {
     try {
         return await Deno.readTextFile(fileName)
@@ -0,0 +1,93 @@
+import { assertEquals, assertThrowsAsync } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { StatusCache } from "./conversation.ts";
+import { Client, TweetJSON } from "./twitter.ts";
+
+function tweet(id: string, replyTo?: string, isProtected = false): TweetJSON {
+    return {
+        id_str: id,
+        created_at: "2000-01-01 00:00:00Z",
+        full_text: `Tweet ${id}`,
+        is_quote_status: false,
+        in_reply_to_status_id_str: replyTo,
+        user: {
+            id_str: "1234",
+            name: "Test user",
+            screen_name: "TestUser",
+            protected: isProtected,
+        }
+    }
+}
+
+/** A fake Client, which serves these tweets, and records which ones it was asked for. */
+class FakeClient {
+    requested: string[] = []
+    private tweets = new Map<string, TweetJSON>()
+
+    constructor(tweets: TweetJSON[], private statuses: Record<string, number> = {}) {
+        for (const tweet of tweets) { this.tweets.set(tweet.id_str, tweet) }
+    }
+
+    // deno-lint-ignore require-await
+    async getStatus(id: string): Promise<TweetJSON> {
+        this.requested.push(id)
+        const status = this.statuses[id] ?? (this.tweets.has(id) ? 200 : 404)
+        if (status != 200) {
+            // Like Client.get() does for non-OK responses:
+            throw {error: "Non-OK response from Twitter API", result: new Response(null, {status})}
+        }
+        return this.tweets.get(id)!
+    }
+
+    asClient(): Client { return this as unknown as Client }
+}
+
+Deno.test("Unavailable tweets are cached", async () => {
+    const client = new FakeClient([], {"1": 403, "2": 404, "3": 500})
+    const statuses = new StatusCache(client.asClient())
+
+    assertEquals(await statuses.get("1"), undefined)
+    assertEquals(await statuses.get("2"), undefined)
+    assertEquals(await statuses.get("1"), undefined)
+    assertEquals(await statuses.get("2"), undefined)
+    assertEquals(client.requested, ["1", "2"])
+
+    // Other errors aren't cached, so we can retry:
+    await assertThrowsAsync(() => statuses.get("3"))
+    await assertThrowsAsync(() => statuses.get("3"))
+    assertEquals(client.requested, ["1", "2", "3", "3"])
+})
+
+Deno.test("Least recently used tweets are evicted", async () => {
+    const client = new FakeClient([tweet("1"), tweet("2"), tweet("3")])
+    const statuses = new StatusCache(client.asClient(), 2)
+
+    await statuses.get("1")
+    await statuses.get("2")
+    await statuses.get("1") // Now "2" is the least recently used.
+    await statuses.get("3")
+    assertEquals(client.requested, ["1", "2", "3"])
+
+    await statuses.get("1")
+    await statuses.get("2")
+    assertEquals(client.requested, ["1", "2", "3", "2"])
+})
+
+Deno.test("Ancestors stop at non-public tweets", async () => {
+    const client = new FakeClient([tweet("1"), tweet("2", "1", true), tweet("3", "2"), tweet("4", "3")])
+    const statuses = new StatusCache(client.asClient())
+    const isPublic = (json: TweetJSON) => !json.user.protected
+
+    const ids = (tweets: TweetJSON[]) => tweets.map(it => it.id_str)
+    assertEquals(ids(await statuses.ancestors(tweet("5", "4"), 10, isPublic)), ["3", "4"])
+    assertEquals(ids(await statuses.ancestors(tweet("5", "4"), 1, isPublic)), ["4"])
+
+    // Added tweets don't need to be fetched:
+    statuses.add(tweet("6", "5"))
+    assertEquals(ids(await statuses.ancestors(tweet("7", "6"), 1, isPublic)), ["6"])
+    assertEquals(client.requested, ["4", "3", "2"])
+
+    // Nor do missing ones:
+    assertEquals(ids(await statuses.ancestors(tweet("9", "8"), 10, isPublic)), [])
+    assertEquals(ids(await statuses.ancestors(tweet("9", "8"), 10, isPublic)), [])
+    assertEquals(client.requested, ["4", "3", "2", "8"])
+})
@@ -0,0 +1,76 @@
+import { log } from "./deps.ts"
+import { Client, TweetJSON } from "./twitter.ts"
+
+const logger = log.getLogger()
+
+/**
+ * Fetches tweets by ID, for showing the conversation that a reply is part of.
+ *
+ * Replies in the same conversation share ancestors, so we cache what we fetch
+ * (including which tweets are unavailable), to spare our rate limit.
+ */
+export class StatusCache {
+    private cache = new Map<string, TweetJSON|null>()
+
+    constructor(private client: Client, private maxSize = 2000) {}
+
+    /** Add a tweet we already have, so we don't need to fetch it. */
+    add(tweet: TweetJSON) {
+        this.set(tweet.id_str, tweet)
+    }
+
+    /**
+     * Get a tweet, fetching it if we have to.
+     * @returns undefined if the tweet is unavailable. (ex: deleted, or from a protected account)
+     */
+    async get(id: string): Promise<TweetJSON|undefined> {
+        const cached = this.cache.get(id)
+        if (cached !== undefined) {
+            // Map iterates in insertion order. Re-insert so that eviction is least-recently-used:
+            this.set(id, cached)
+            return cached ?? undefined
+        }
+
+        let tweet: TweetJSON|null = null
+        try {
+            tweet = await this.client.getStatus(id)
+        } catch (error) {
+            // Note: RateLimitError (and other errors) propagate, so callers can retry later.
+            // Client.get() throws {result: Response, ...} for other non-OK responses:
+            const result = (error as {result?: unknown}|undefined)?.result
+            const status = result instanceof Response ? result.status : undefined
+            if (status !== 403 && status !== 404) { throw error }
+            logger.debug(() => `Tweet ${id} is unavailable (HTTP ${status})`)
+        }
+
+        this.set(id, tweet)
+        return tweet ?? undefined
+    }
+
+    /**
+     * Get the tweets that a tweet replies to, oldest first.
+     *
+     * @param maxDepth The most ancestors to get.
+     * @param include Stop at the first ancestor that this returns false for. (ex: non-public tweets)
+     */
+    async ancestors(tweet: TweetJSON, maxDepth: number, include: (tweet: TweetJSON) => boolean): Promise<TweetJSON[]> {
+        const ancestors: TweetJSON[] = []
+        let parentID = tweet.in_reply_to_status_id_str
+        while (parentID && ancestors.length < maxDepth) {
+            const parent = await this.get(parentID)
+            if (!parent || !include(parent)) { break }
+            ancestors.push(parent)
+            parentID = parent.in_reply_to_status_id_str
+        }
+        return ancestors.reverse()
+    }
+
+    private set(id: string, tweet: TweetJSON|null) {
+        this.cache.delete(id)
+        this.cache.set(id, tweet)
+        if (this.cache.size > this.maxSize) {
+            const oldest = this.cache.keys().next().value
+            this.cache.delete(oldest)
+        }
+    }
+}
@@ -0,0 +1,210 @@
+import { http, log } from "./deps.ts"
+import { RateLimitError } from "./twitter.ts"
+
+const logger = log.getLogger()
+
+/** Something the daemon runs periodically. (ex: syncing one timeline) */
+export interface Job {
+    name: string
+    intervalMinutes: number
+    run: () => Promise<void>
+}
+
+export interface SchedulerOptions {
+    /** Add up to this many minutes of randomness to each interval. */
+    jitterMinutes: number
+
+    /** If set, serve a JSON status page on this port. (localhost only) */
+    statusPort?: number
+
+    /** Stop scheduling jobs once this is aborted. */
+    signal: AbortSignal
+}
+
+/**
+ * Runs Jobs on their intervals until signalled to stop.
+ * Only one job runs at a time, so that jobs don't compete for Twitter's rate limits.
+ */
+export class Scheduler {
+
+    private jobs: ScheduledJob[]
+    private startedAt = new Date()
+
+    constructor(jobs: Job[], private options: SchedulerOptions) {
+        const now = Date.now()
+        this.jobs = jobs.map(job => new ScheduledJob(job, now))
+    }
+
+    async run(): Promise<void> {
+        const {signal, statusPort} = this.options
+        const server = statusPort ? this.serveStatus(statusPort) : undefined
+
+        try {
+            while (!signal.aborted && this.jobs.length > 0) {
+                const job = this.jobs.reduce((a, b) => a.nextRunMs <= b.nextRunMs ? a : b)
+                const waitMs = job.nextRunMs - Date.now()
+                if (waitMs > 0) {
+                    logger.debug(() => `Next job: ${job.name} at ${new Date(job.nextRunMs).toISOString()}`)
+                    await sleep(waitMs, signal)
+                    if (signal.aborted) { break }
+                }
+
+                await this.runJob(job)
+            }
+        } finally {
+            server?.close()
+        }
+
+        logger.info("Daemon stopped.")
+    }
+
+    private async runJob(job: ScheduledJob) {
+        const intervalMs = job.job.intervalMinutes * MINUTE_MS
+        job.running = true
+        job.lastStart = new Date()
+        try {
+            await job.job.run()
+            job.lastResult = "ok"
+            job.lastError = undefined
+            job.failures = 0
+            job.nextRunMs = Date.now() + intervalMs + this.jitterMs()
+        } catch (error) {
+            job.lastError = `${error}`
+            if (error instanceof RateLimitError) {
+                job.lastResult = "rateLimited"
+                logger.warning(() => `${job.name}: ${error.message}`)
+                // 5s for good measure (& clock drift):
+                job.nextRunMs = Math.max(Date.now(), error.resetMs) + 5000 + this.jitterMs()
+            } else {
+                job.lastResult = "error"
+                job.failures++
+                logger.error(() => `${job.name} failed (${job.failures} time(s) in a row): ${error}`)
+                // Back off exponentially, but don't wait longer than the normal interval:
+                const backoffMs = Math.min(MINUTE_MS * 2 ** (job.failures - 1), intervalMs)
+                job.nextRunMs = Date.now() + backoffMs + this.jitterMs()
+            }
+        } finally {
+            job.running = false
+            job.lastEnd = new Date()
+        }
+    }
+
+    private jitterMs(): number {
+        return Math.random() * this.options.jitterMinutes * MINUTE_MS
+    }
+
+    get status(): DaemonStatus {
+        return {
+            startedAt: this.startedAt.toISOString(),
+            stopping: this.options.signal.aborted,
+            jobs: this.jobs.map(it => it.status),
+        }
+    }
+
+    private serveStatus(port: number): http.Server {
+        const server = http.serve({hostname: "127.0.0.1", port})
+        logger.info(() => `Serving status at http://127.0.0.1:${port}/`)
+
+        const serve = async () => {
+            for await (const request of server) {
+                try {
+                    await request.respond({
+                        status: 200,
+                        headers: new Headers({"content-type": "application/json"}),
+                        body: JSON.stringify(this.status, null, 2),
+                    })
+                } catch (error) {
+                    logger.warning(() => `Error serving status: ${error}`)
+                }
+            }
+        }
+        serve().catch(error => logger.error(() => `Status server failed: ${error}`))
+
+        return server
+    }
+}
+
+class ScheduledJob {
+    running = false
+    lastStart?: Date
+    lastEnd?: Date
+    lastResult?: "ok"|"error"|"rateLimited"
+    lastError?: string
+    /** Consecutive failures. */
+    failures = 0
+
+    constructor(readonly job: Job, public nextRunMs: number) {}
+
+    get name() { return this.job.name }
+
+    get status(): JobStatus {
+        return {
+            name: this.name,
+            intervalMinutes: this.job.intervalMinutes,
+            running: this.running,
+            nextRun: new Date(this.nextRunMs).toISOString(),
+            lastStart: this.lastStart?.toISOString(),
+            lastEnd: this.lastEnd?.toISOString(),
+            lastResult: this.lastResult,
+            lastError: this.lastError,
+            failures: this.failures,
+        }
+    }
+}
+
+export interface DaemonStatus {
+    startedAt: string
+    stopping: boolean
+    jobs: JobStatus[]
+}
+
+export interface JobStatus {
+    name: string
+    intervalMinutes: number
+    running: boolean
+    nextRun: string
+    lastStart?: string
+    lastEnd?: string
+    lastResult?: string
+    lastError?: string
+    failures: number
+}
+
+/**
+ * Returns a signal that's aborted on SIGINT/SIGTERM, so that we can finish
+ * what we're doing and shut down cleanly.
+ * A second signal exits immediately.
+ */
+export function shutdownSignal(): AbortSignal {
+    const controller = new AbortController()
+    const onSignal = () => {
+        if (controller.signal.aborted) {
+            logger.warning("Exiting immediately.")
+            Deno.exit(1)
+        }
+        logger.info("Shutting down after the current item. (Signal again to exit immediately.)")
+        controller.abort()
+    }
+
+    Deno.addSignalListener("SIGINT", onSignal)
+    Deno.addSignalListener("SIGTERM", onSignal)
+    return controller.signal
+}
+
+/** Like delay(), but wakes early if the signal is aborted. */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        if (signal.aborted) { return resolve() }
+        const onAbort = () => {
+            clearTimeout(timer)
+            resolve()
+        }
+        const timer = setTimeout(() => {
+            signal.removeEventListener("abort", onAbort)
+            resolve()
+        }, ms)
+        signal.addEventListener("abort", onAbort, {once: true})
+    })
+}
+
+const MINUTE_MS = 60 * 1000
@@ -7,14 +7,12 @@ export * as hash from "https://deno.land/std@0.100.0/hash/mod.ts"
 export * as path from "https://deno.land/std@0.100.0/path/mod.ts"
 export * as toml from "https://deno.land/std@0.100.0/encoding/toml.ts"
 export { delay } from "https://deno.land/std@0.100.0/async/delay.ts"
+export * as http from "https://deno.land/std@0.100.0/http/server.ts"
 
 // third-party:
 export * as cliffy from "https://deno.land/x/cliffy@v0.19.3/command/mod.ts"
-
-// TODO: Use a deno.land/x/ version once a release is made:
-export * as denoDOM from "https://github.com/b-fuze/deno-dom/raw/188d7240e5371caf1b4add8bb7183933d142337e/deno-dom-wasm.ts"
 export * as denoTwitter from "https://deno.land/x/deno_twitter_api@v1.1.0/mod.ts"
-export * as turndown from "https://cdn.skypack.dev/turndown@7.1.1"
+export * as zip from "https://deno.land/x/zip@v1.2.5/mod.ts"
 
 // My stuff:
 export * as feoblog from "https://deno.land/x/feoblog_client@v0.2.0/mod.ts"
@@ -0,0 +1,86 @@
+import { feoblog } from "./deps.ts"
+import { toHex } from "./attachments.ts"
+
+/**
+ * Reports what we would have posted to FeoBlog, instead of posting it.
+ * 
+ * By default, prints human-readable output. If given a file name, writes
+ * one JSON object per line to that file instead. (Or "-" for stdout.)
+ */
+export class DryRun {
+
+    /** Start a new dry run. Truncates jsonFile if it exists. */
+    static async start(jsonFile?: string): Promise<DryRun> {
+        if (jsonFile && jsonFile !== "-") {
+            await Deno.writeTextFile(jsonFile, "")
+        }
+        return new DryRun(jsonFile)
+    }
+
+    private count = 0
+
+    private constructor(private jsonFile?: string) {}
+
+    async report(planned: PlannedItem): Promise<void> {
+        this.count++
+        const item = planned.item
+        const timestamp = item.timestamp_ms_utc
+        const body = item.post?.body ?? item.comment?.text ?? ""
+
+        if (!this.jsonFile) {
+            console.log(`--- ${new Date(timestamp).toISOString()} ${planned.url}`)
+            console.log(`To: ${planned.userID}`)
+            console.log()
+            console.log(body)
+            console.log()
+            if (planned.attachments.length > 0) {
+                console.log("Attachments:")
+                for (const a of planned.attachments) {
+                    console.log(`  ${a.name} (${a.size} bytes)`)
+                }
+                console.log()
+            }
+            return
+        }
+
+        const line = JSON.stringify({
+            timestamp,
+            date: new Date(timestamp).toISOString(),
+            url: planned.url,
+            userID: planned.userID.toString(),
+            body,
+            attachments: planned.attachments.map(a => ({
+                name: a.name,
+                size: a.size,
+                sha512: toHex(a.hash),
+            })),
+        })
+
+        if (this.jsonFile === "-") {
+            console.log(line)
+        } else {
+            await Deno.writeTextFile(this.jsonFile, line + "\n", {append: true})
+        }
+    }
+
+    // deno-lint-ignore require-await
+    async close(): Promise<void> {
+        if (this.jsonFile === "-") { return }
+        const dest = this.jsonFile ? ` to ${this.jsonFile}` : ""
+        console.log(`Dry run: reported ${this.count} items${dest}.`)
+    }
+}
+
+export interface PlannedItem {
+    userID: feoblog.UserID
+    /** The URL of the (first) tweet in this item. */
+    url: string
+    item: feoblog.protobuf.Item
+    attachments: readonly PlannedAttachment[]
+}
+
+interface PlannedAttachment {
+    name: string
+    size: number
+    hash: Uint8Array
+}
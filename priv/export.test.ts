@@ -0,0 +1,35 @@
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { Tweet } from "../feotweet.ts";
+import { Export } from "./export.ts";
+import { path } from "./deps.ts";
+import { TweetJSON } from "./twitter.ts";
+
+Deno.test("The index shows decoded text, with URLs expanded", async () => {
+    const dir = await Deno.makeTempDir({prefix: "feotweet-export-test-"})
+    try {
+        const json: TweetJSON = {
+            id_str: "1000",
+            created_at: "2021-07-01 00:00:00Z",
+            full_text: "Fish &amp; chips https://t.co/abc",
+            is_quote_status: false,
+            entities: {
+                urls: [{
+                    indices: [17, 33],
+                    url: "https://t.co/abc",
+                    display_url: "example.com",
+                    expanded_url: "https://example.com/",
+                }],
+            },
+            user: {id_str: "1234", name: "Test user", screen_name: "TestUser", protected: false},
+        }
+
+        const out = await Export.open(dir)
+        await out.write({json, markdown: "", attachments: []})
+        await out.writeIndex(json => new Tweet(json).summaryText)
+
+        const index = await Deno.readTextFile(path.join(dir, "index.md"))
+        assertEquals(index.split("\n")[2], "* 2021-07-01 [@TestUser](1000/index.md): Fish \\& chips https://example.com/")
+    } finally {
+        await Deno.remove(dir, {recursive: true})
+    }
+})
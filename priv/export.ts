@@ -0,0 +1,123 @@
+import { ioUtil, log, path } from "./deps.ts"
+import { Attachment } from "./attachments.ts"
+import { escapeText, truncate } from "./mdwriter.ts"
+import { TweetJSON } from "./twitter.ts"
+
+const logger = log.getLogger()
+
+/**
+ * A plain-file export of tweets, in a local directory.
+ *
+ * Each tweet gets its own directory:
+ *
+ *     ${tweetID}/index.md       The tweet, as Markdown.
+ *     ${tweetID}/tweet.json     The tweet, as we got it from Twitter.
+ *     ${tweetID}/files/*        Attachments. (Linked from index.md)
+ *
+ * And index.md lists all exported tweets, newest first.
+ *
+ * We only write tweets that aren't exported yet, so re-running an export picks up
+ * where it left off.
+ */
+export class Export {
+
+    /** Open (or create) an export directory. */
+    static async open(dir: string): Promise<Export> {
+        await Deno.mkdir(dir, {recursive: true})
+
+        const tweetIDs = new Set<string>()
+        for await (const entry of Deno.readDir(dir)) {
+            if (!entry.isDirectory || !TWEET_ID_PAT.test(entry.name)) { continue }
+            try {
+                await Deno.stat(path.join(dir, entry.name, TWEET_JSON))
+            } catch (error) {
+                if (!(error instanceof Deno.errors.NotFound)) { throw error }
+                // Probably interrupted while writing. We'll rewrite it.
+                logger.warning(() => `Incomplete export for tweet ${entry.name}. Will re-export it.`)
+                continue
+            }
+            tweetIDs.add(entry.name)
+        }
+
+        return new Export(dir, tweetIDs)
+    }
+
+    private constructor(readonly dir: string, private tweetIDs: Set<string>) {}
+
+    /** The latest tweet ID we've exported, if any. */
+    get sinceID(): string|undefined {
+        let latest: string|undefined = undefined
+        for (const id of this.tweetIDs) {
+            if (!latest || BigInt(id) > BigInt(latest)) { latest = id }
+        }
+        return latest
+    }
+
+    has(tweetID: string): boolean {
+        return this.tweetIDs.has(tweetID)
+    }
+
+    /** Write a tweet to the export. */
+    async write(tweet: ExportedTweet): Promise<void> {
+        const id = tweet.json.id_str
+        const tweetDir = path.join(this.dir, id)
+        await Deno.mkdir(tweetDir, {recursive: true})
+
+        if (tweet.attachments.length > 0) {
+            const filesDir = path.join(tweetDir, "files")
+            await Deno.mkdir(filesDir, {recursive: true})
+            for (const attachment of tweet.attachments) {
+                await writeAttachment(attachment, path.join(filesDir, attachment.name))
+            }
+        }
+
+        await Deno.writeTextFile(path.join(tweetDir, "index.md"), tweet.markdown)
+
+        // Written last. Its presence means the export of this tweet is complete:
+        await Deno.writeTextFile(path.join(tweetDir, TWEET_JSON), JSON.stringify(tweet.json, null, 2))
+
+        this.tweetIDs.add(id)
+    }
+
+    /**
+     * (Re)write the index of all exported tweets.
+     * @param summaryText the plain text to show for each tweet. (Decoded, with URLs expanded.)
+     */
+    async writeIndex(summaryText: (json: TweetJSON) => string): Promise<void> {
+        const tweets: TweetJSON[] = []
+        for (const id of this.tweetIDs) {
+            const text = await Deno.readTextFile(path.join(this.dir, id, TWEET_JSON))
+            tweets.push(JSON.parse(text) as TweetJSON)
+        }
+        tweets.sort((a, b) => Date.parse(b.created_at) - Date.parse(a.created_at))
+
+        const lines = ["# Tweets", ""]
+        for (const tweet of tweets) {
+            const date = new Date(Date.parse(tweet.created_at)).toISOString().substring(0, 10)
+            lines.push(`* ${date} [@${tweet.user.screen_name}](${tweet.id_str}/index.md): ${escapeText(truncate(summaryText(tweet), 80))}`)
+        }
+        lines.push("")
+
+        await Deno.writeTextFile(path.join(this.dir, "index.md"), lines.join("\n"))
+    }
+}
+
+export interface ExportedTweet {
+    json: TweetJSON
+    markdown: string
+    attachments: readonly Attachment[]
+}
+
+async function writeAttachment(attachment: Attachment, filePath: string): Promise<void> {
+    const file = await Deno.open(filePath, {write: true, create: true, truncate: true})
+    try {
+        await attachment.withReader(async (reader) => {
+            await ioUtil.copy(reader, file)
+        })
+    } finally {
+        file.close()
+    }
+}
+
+const TWEET_ID_PAT = /^\d+$/
+const TWEET_JSON = "tweet.json"
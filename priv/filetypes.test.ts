@@ -0,0 +1,61 @@
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { JPEG, MP4, PNG, sniffType, stripMetadata, withExtension } from "./filetypes.ts";
+
+function ascii(text: string): number[] {
+    return [...text].map(c => c.charCodeAt(0))
+}
+
+/** A segment with a 2-byte length (which includes itself) */
+function segment(marker: number, data: number[]): number[] {
+    const length = data.length + 2
+    return [0xFF, marker, length >> 8, length & 0xFF, ...data]
+}
+
+/** A chunk with a (fake) CRC. */
+function chunk(type: string, data: number[]): number[] {
+    const length = data.length
+    return [0, 0, length >> 8, length & 0xFF, ...ascii(type), ...data, 1, 2, 3, 4]
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]
+
+Deno.test("Sniff file types", () => {
+    assertEquals(sniffType(new Uint8Array([0xFF, 0xD8, 0xFF, 0xE0, 0, 0, 0, 0, 0, 0, 0, 0])), JPEG)
+    assertEquals(sniffType(new Uint8Array([...PNG_SIGNATURE, 0, 0, 0, 0])), PNG)
+    assertEquals(sniffType(new Uint8Array([0, 0, 0, 0x20, ...ascii("ftypisom")])), MP4)
+    assertEquals(sniffType(new Uint8Array(ascii("Hello, world!"))), undefined)
+
+    assertEquals(withExtension("abc", JPEG), "abc.jpg")
+    assertEquals(withExtension("abc.JPEG", JPEG), "abc.JPEG")
+    assertEquals(withExtension("abc.png", JPEG), "abc.jpg")
+    assertEquals(withExtension(".hidden", PNG), ".hidden.png")
+})
+
+Deno.test("Strip JPEG metadata", () => {
+    const jfif = segment(0xE0, ascii("JFIF\0"))
+    const exif = segment(0xE1, ascii("Exif\0\0GPS!"))
+    const comment = segment(0xFE, ascii("hello"))
+    const quantTable = segment(0xDB, [1, 2, 3])
+    // Start of scan, followed by image data, and end of image:
+    const scan = [...segment(0xDA, [4, 5]), 0xE1, 0xFF, 0x00, 0xFF, 0xD9]
+
+    const jpeg = new Uint8Array([0xFF, 0xD8, ...jfif, ...exif, ...comment, ...quantTable, ...scan])
+    const stripped = stripMetadata(jpeg, JPEG)
+    assertEquals([...stripped], [0xFF, 0xD8, ...jfif, ...quantTable, ...scan])
+
+    // Leaves broken files alone:
+    const truncated = jpeg.subarray(0, 10)
+    assertEquals(stripMetadata(truncated, JPEG), truncated)
+})
+
+Deno.test("Strip PNG metadata", () => {
+    const header = chunk("IHDR", [1, 2, 3])
+    const text = chunk("tEXt", ascii("Author\0Me"))
+    const exif = chunk("eXIf", [5, 6, 7])
+    const data = chunk("IDAT", [8, 9])
+    const end = chunk("IEND", [])
+
+    const png = new Uint8Array([...PNG_SIGNATURE, ...header, ...text, ...exif, ...data, ...end])
+    const stripped = stripMetadata(png, PNG)
+    assertEquals([...stripped], [...PNG_SIGNATURE, ...header, ...data, ...end])
+})
@@ -0,0 +1,148 @@
+/**
+ * Works out what type of file we've downloaded from its contents, and strips
+ * metadata (ex: EXIF GPS coordinates) from images before we copy them.
+ *
+ * URLs don't reliably tell us file types. (ex: pbs.twimg.com/media/abc?format=jpg)
+ * And FeoBlog serves attachments based on their file extension.
+ */
+
+export interface FileType {
+    mimeType: string
+    /** ex: ".jpg" */
+    extension: string
+    /** Other extensions that are OK for this type. */
+    aliases?: string[]
+}
+
+export const JPEG: FileType = {mimeType: "image/jpeg", extension: ".jpg", aliases: [".jpeg", ".jpe"]}
+export const PNG: FileType = {mimeType: "image/png", extension: ".png"}
+export const GIF: FileType = {mimeType: "image/gif", extension: ".gif"}
+export const WEBP: FileType = {mimeType: "image/webp", extension: ".webp"}
+export const MP4: FileType = {mimeType: "video/mp4", extension: ".mp4", aliases: [".m4v"]}
+
+/** How many bytes sniffType() needs. */
+export const SNIFF_BYTES = 12
+
+/** @param header at least the first SNIFF_BYTES of a file. */
+export function sniffType(header: Uint8Array): FileType|undefined {
+    if (startsWith(header, [0xFF, 0xD8, 0xFF])) { return JPEG }
+    if (startsWith(header, [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A])) { return PNG }
+    if (ascii(header, 0, 6) === "GIF87a" || ascii(header, 0, 6) === "GIF89a") { return GIF }
+    if (ascii(header, 0, 4) === "RIFF" && ascii(header, 8, 12) === "WEBP") { return WEBP }
+    if (ascii(header, 4, 8) === "ftyp") { return MP4 }
+    return undefined
+}
+
+/**
+ * Give a file name the right extension for its type.
+ * ex: "abc" -> "abc.jpg", "abc.png" -> "abc.jpg" (if it's really a JPEG)
+ */
+export function withExtension(name: string, type: FileType): string {
+    const dot = name.lastIndexOf(".")
+    const stem = dot > 0 ? name.substring(0, dot) : name
+    const extension = dot > 0 ? name.substring(dot).toLowerCase() : ""
+
+    if (extension === type.extension || type.aliases?.includes(extension)) { return name }
+    return `${stem}${type.extension}`
+}
+
+/** Can stripMetadata() strip metadata from this type of file? */
+export function canStripMetadata(type: FileType): boolean {
+    return type === JPEG || type === PNG
+}
+
+/**
+ * Remove metadata from JPEG and PNG images. Other files are returned as-is.
+ *
+ * If we can't parse the image, we return it unchanged rather than risk breaking it.
+ */
+export function stripMetadata(bytes: Uint8Array, type: FileType|undefined): Uint8Array {
+    try {
+        if (type === JPEG) { return stripJPEG(bytes) }
+        if (type === PNG) { return stripPNG(bytes) }
+    } catch (error) {
+        if (!(error instanceof ParseError)) { throw error }
+    }
+    return bytes
+}
+
+/**
+ * Drops APP1 (EXIF, XMP), APP13 (IPTC), and COM (comment) segments.
+ *
+ * Note: The EXIF orientation goes too, but Twitter has already applied it to the images it serves.
+ */
+function stripJPEG(bytes: Uint8Array): Uint8Array {
+    const keep: Uint8Array[] = [bytes.subarray(0, 2)]
+    let pos = 2
+    while (true) {
+        if (pos + 4 > bytes.length || bytes[pos] !== 0xFF) {
+            throw new ParseError(`Expected a JPEG marker at ${pos}`)
+        }
+        const marker = bytes[pos + 1]
+        const length = (bytes[pos + 2] << 8) | bytes[pos + 3]
+        const end = pos + 2 + length
+        if (end > bytes.length) {
+            throw new ParseError(`JPEG segment at ${pos} runs past the end of the file`)
+        }
+
+        // Start Of Scan: The rest is image data.
+        if (marker === 0xDA) {
+            keep.push(bytes.subarray(pos))
+            break
+        }
+
+        if (!JPEG_STRIP.has(marker)) {
+            keep.push(bytes.subarray(pos, end))
+        }
+        pos = end
+    }
+
+    return concat(keep)
+}
+
+const JPEG_STRIP = new Set([0xE1, 0xED, 0xFE])
+
+/** Drops eXIf, and text and timestamp chunks. */
+function stripPNG(bytes: Uint8Array): Uint8Array {
+    const keep: Uint8Array[] = [bytes.subarray(0, 8)]
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    let pos = 8
+    while (pos < bytes.length) {
+        if (pos + 12 > bytes.length) {
+            throw new ParseError(`Truncated PNG chunk at ${pos}`)
+        }
+        // length, type, data, CRC:
+        const end = pos + 12 + view.getUint32(pos)
+        if (end > bytes.length) {
+            throw new ParseError(`PNG chunk at ${pos} runs past the end of the file`)
+        }
+        if (!PNG_STRIP.has(ascii(bytes, pos + 4, pos + 8))) {
+            keep.push(bytes.subarray(pos, end))
+        }
+        pos = end
+    }
+
+    return concat(keep)
+}
+
+const PNG_STRIP = new Set(["eXIf", "tEXt", "zTXt", "iTXt", "tIME"])
+
+class ParseError extends Error {}
+
+function startsWith(bytes: Uint8Array, prefix: number[]): boolean {
+    return prefix.every((b, i) => bytes[i] === b)
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+    return String.fromCharCode(...bytes.subarray(start, end))
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+    const out = new Uint8Array(parts.reduce((sum, it) => sum + it.length, 0))
+    let pos = 0
+    for (const part of parts) {
+        out.set(part, pos)
+        pos += part.length
+    }
+    return out
+}
@@ -0,0 +1,102 @@
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { Tweet } from "../feotweet.ts";
+import { Filters } from "./filters.ts";
+import { TweetJSON } from "./twitter.ts";
+
+/** Check a tweet like we do when syncing, with the text users see. */
+function check(filters: Filters, json: TweetJSON) {
+    return filters.check(json, new Tweet(json).summaryText)
+}
+
+Deno.test("No filters includes everything", () => {
+    const filters = new Filters([])
+    assertEquals(check(filters, tweetWithBody("Hello")).include, true)
+})
+
+Deno.test("Exclude by text", () => {
+    const filters = new Filters([
+        {action: "exclude", name: "no spoilers", text: "spoiler"},
+    ])
+    assertEquals(check(filters, tweetWithBody("Hello")).include, true)
+
+    const result = check(filters, tweetWithBody("SPOILER: it was a dream"))
+    assertEquals(result.include, false)
+    assertEquals(result.reason, `filter #1 "no spoilers" (exclude)`)
+})
+
+Deno.test("Include rules exclude everything else", () => {
+    const filters = new Filters([
+        {action: "exclude", minLikes: 1000},
+        {action: "include", languages: ["en"]},
+    ])
+
+    const english = tweetWithBody("Hello")
+    english.lang = "en"
+    assertEquals(check(filters, english).include, true)
+
+    const german = tweetWithBody("Hallo")
+    german.lang = "de"
+    assertEquals(check(filters, german), {include: false, reason: "no include filter matched"})
+
+    // First matching rule wins:
+    english.favorite_count = 5000
+    assertEquals(check(filters, english).include, false)
+})
+
+Deno.test("Retweets and domains", () => {
+    const filters = new Filters([
+        {action: "exclude", retweetOf: ["NoisyUser"]},
+        {action: "exclude", domains: ["example.com"]},
+    ])
+
+    const original = tweetWithBody("Read this")
+    original.user.screen_name = "noisyuser"
+    const retweet = tweetWithBody("RT @noisyuser: Read this")
+    retweet.retweeted_status = original
+    assertEquals(check(filters, retweet).include, false)
+
+    const link = tweetWithBody("Read this https://t.co/abc")
+    link.entities = {urls: [{
+        indices: [10, 26],
+        url: "https://t.co/abc",
+        display_url: "www.example.com/foo",
+        expanded_url: "https://www.example.com/foo",
+    }]}
+    assertEquals(check(filters, link).include, false)
+})
+
+Deno.test("Text rules match the text users see", () => {
+    const filters = new Filters([
+        {action: "exclude", text: "fish & chips"},
+        {action: "exclude", text: "https://example\\.com/spoilers"},
+    ])
+
+    // Twitter escapes "&" as "&amp;":
+    assertEquals(check(filters, tweetWithBody("Fish &amp; chips tonight")).include, false)
+
+    // And shortens URLs:
+    const link = tweetWithBody("Read this https://t.co/abc")
+    link.entities = {urls: [{
+        indices: [10, 26],
+        url: "https://t.co/abc",
+        display_url: "example.com/spoilers",
+        expanded_url: "https://example.com/spoilers",
+    }]}
+    assertEquals(check(filters, link).include, false)
+    assertEquals(check(filters, tweetWithBody("Fish and chips")).include, true)
+})
+
+function tweetWithBody(body: string): TweetJSON {
+    return {
+        id_str: "0000",
+        created_at: "2000-01-01 00:00:00Z",
+        full_text: body,
+        is_quote_status: false,
+        user: {
+            id_str: "1234",
+            name: "Test user",
+            screen_name: "TestUser",
+            protected: false
+        }
+    }
+}
@@ -0,0 +1,122 @@
+import { Filter } from "./config.ts"
+import { TweetJSON } from "./twitter.ts"
+
+/**
+ * Decides which tweets to sync, based on a list of filter rules.
+ * 
+ * Rules are checked in order, and the first one that matches a tweet decides
+ * whether it's included or excluded. A rule matches if all of its conditions match.
+ * If no rules match, the tweet is included, unless there are "include" rules,
+ * in which case it's excluded.
+ */
+export class Filters {
+    private rules: Rule[]
+    private defaultInclude: boolean
+
+    constructor(filters: Filter[]) {
+        this.rules = filters.map((filter, index) => new Rule(filter, index))
+        this.defaultInclude = !filters.some(it => it.action == "include")
+    }
+
+    /**
+     * @param text the text of the tweet (or for a retweet, the retweeted tweet) as users see it.
+     *   That is, with HTML entities decoded, and URLs expanded. (See: Tweet.summaryText)
+     */
+    check(tweet: TweetJSON, text: string): FilterResult {
+        for (const rule of this.rules) {
+            if (rule.matches(tweet, text)) {
+                return {include: rule.filter.action == "include", reason: rule.toString()}
+            }
+        }
+
+        if (this.defaultInclude) {
+            return {include: true, reason: "no filter matched"}
+        }
+        return {include: false, reason: "no include filter matched"}
+    }
+}
+
+export interface FilterResult {
+    include: boolean
+
+    /** Which rule made the decision, for logging. */
+    reason: string
+}
+
+/** Compile a filter's text. (Throws a SyntaxError if it's not a valid regular expression.) */
+export function textPattern(text: string, caseSensitive = false): RegExp {
+    return new RegExp(text, caseSensitive ? "u" : "iu")
+}
+
+class Rule {
+    private textPattern?: RegExp
+    private languages?: Set<string>
+    private retweetOf?: Set<string>
+    private domains?: string[]
+
+    constructor(readonly filter: Filter, private index: number) {
+        if (filter.text !== undefined) {
+            this.textPattern = textPattern(filter.text, filter.caseSensitive)
+        }
+        if (filter.languages) {
+            this.languages = new Set(filter.languages.map(it => it.toLowerCase()))
+        }
+        if (filter.retweetOf) {
+            this.retweetOf = new Set(filter.retweetOf.map(it => it.toLowerCase()))
+        }
+        if (filter.domains) {
+            this.domains = filter.domains.map(it => it.toLowerCase())
+        }
+    }
+
+    matches(tweet: TweetJSON, text: string): boolean {
+        const filter = this.filter
+
+        if (this.retweetOf) {
+            const rt = tweet.retweeted_status
+            if (!rt || !this.retweetOf.has(rt.user.screen_name.toLowerCase())) { return false }
+        }
+
+        // The rest of the conditions apply to the content, which for a retweet is the retweeted tweet:
+        const content = tweet.retweeted_status ?? tweet
+
+        if (this.textPattern && !this.textPattern.exec(text)) { return false }
+
+        if (this.languages && !this.languages.has((content.lang ?? "und").toLowerCase())) { return false }
+
+        if (filter.hasMedia !== undefined) {
+            const hasMedia = (content.extended_entities?.media?.length ?? 0) > 0
+            if (hasMedia !== filter.hasMedia) { return false }
+        }
+
+        if (this.domains && !linksTo(content, this.domains)) { return false }
+
+        if (filter.minLikes !== undefined && (content.favorite_count ?? 0) < filter.minLikes) { return false }
+
+        if (filter.minRetweets !== undefined && (content.retweet_count ?? 0) < filter.minRetweets) { return false }
+
+        return true
+    }
+
+    toString(): string {
+        const name = this.filter.name ? ` "${this.filter.name}"` : ""
+        return `filter #${this.index + 1}${name} (${this.filter.action})`
+    }
+}
+
+/** Does the tweet link to any of these domains (or their subdomains)? */
+function linksTo(tweet: TweetJSON, domains: string[]): boolean {
+    for (const urlMeta of tweet.entities?.urls ?? []) {
+        let host: string
+        try {
+            host = new URL(urlMeta.expanded_url).hostname.toLowerCase()
+        } catch (_) {
+            continue
+        }
+
+        for (const domain of domains) {
+            if (host == domain || host.endsWith(`.${domain}`)) { return true }
+        }
+    }
+    return false
+}
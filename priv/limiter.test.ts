@@ -0,0 +1,29 @@
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { HostLimiter } from "./limiter.ts";
+
+Deno.test("Limits concurrent tasks per host", async () => {
+    const limiter = new HostLimiter(2)
+    const active = new Map<string, number>()
+    const maxActive = new Map<string, number>()
+    const order: number[] = []
+
+    const task = async (host: string, id: number) => {
+        active.set(host, (active.get(host) ?? 0) + 1)
+        maxActive.set(host, Math.max(maxActive.get(host) ?? 0, active.get(host)!))
+        await new Promise(resolve => setTimeout(resolve, 5))
+        active.set(host, active.get(host)! - 1)
+        order.push(id)
+        return id
+    }
+
+    const results = await Promise.all([
+        ...[1, 2, 3, 4, 5].map(id => limiter.run("https://a.example/file", () => task("a", id))),
+        limiter.run("https://b.example/file", () => task("b", 6)),
+    ])
+
+    assertEquals(results, [1, 2, 3, 4, 5, 6])
+    assertEquals(maxActive.get("a"), 2)
+    assertEquals(maxActive.get("b"), 1)
+    // Waiting tasks run in the order they were started:
+    assertEquals(order.filter(id => id <= 5), [1, 2, 3, 4, 5])
+})
@@ -0,0 +1,62 @@
+/**
+ * Limits how many requests we make to each host at once.
+ *
+ * Lets us download (and upload) several files in parallel without hammering
+ * any one server. (ex: Twitter's media CDN, or our FeoBlog server)
+ */
+export class HostLimiter {
+    private hosts = new Map<string, HostState>()
+
+    constructor(readonly maxPerHost: number) {
+        if (maxPerHost < 1) {
+            throw new Error(`maxPerHost must be at least 1, but was ${maxPerHost}`)
+        }
+    }
+
+    /** Run task once there's a free slot for url's host. */
+    async run<T>(url: string|URL, task: () => Promise<T>): Promise<T> {
+        const host = new URL(url).host
+        await this.acquire(host)
+        try {
+            return await task()
+        } finally {
+            this.release(host)
+        }
+    }
+
+    private async acquire(host: string): Promise<void> {
+        let state = this.hosts.get(host)
+        if (!state) {
+            state = {active: 0, waiting: []}
+            this.hosts.set(host, state)
+        }
+
+        if (state.active < this.maxPerHost) {
+            state.active++
+            return
+        }
+
+        // release() hands its slot directly to us, so active stays the same:
+        await new Promise<void>(resolve => state!.waiting.push(resolve))
+    }
+
+    private release(host: string) {
+        const state = this.hosts.get(host)!
+        const next = state.waiting.shift()
+        if (next) {
+            next()
+            return
+        }
+
+        state.active--
+        if (state.active == 0) {
+            this.hosts.delete(host)
+        }
+    }
+}
+
+interface HostState {
+    active: number
+    /** Tasks waiting for a slot, in the order they asked for one. */
+    waiting: (() => void)[]
+}
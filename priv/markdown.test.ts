@@ -1,148 +1,170 @@
-import { htmlToMarkdown } from "./markdown.ts"
-import { turndown, denoDOM } from "./deps.ts"
-
 import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
-
-function assertRenders(html: string|string[], expected: string|string[]) {
-    if (html instanceof Array) {
-        html = html.join("\n")
-    }
-    if (expected instanceof Array) {
-        expected = expected.join("\n")
-    }
-    const rendered = htmlToMarkdown(html)
-    assertEquals(rendered, expected)
-}
-
-interface Renderer {
-    turndown(html: denoDOM.Node): string
-}
-
-const parser = new denoDOM.DOMParser()
-const refShortcut: Renderer = new turndown.default({
-    linkStyle: "referenced",
-    linkReferenceStyle: "shortcut",
-})
-function renderWith(renderer: Renderer, html: string): string {
-    const doc = parser.parseFromString(html, "text/html")
-    if (!doc) throw { error: "Couldn't parse", html}
-
-    return renderer.turndown(doc)
+import { Thread, Tweet } from "../feotweet.ts";
+import { NoOpAttachmentColletor } from "./attachments.ts";
+import { TweetJSON } from "./twitter.ts";
+
+// End-to-end tests of the Markdown we post.
+// Includes the corner cases that Turndown got wrong, back when we converted our HTML with it.
+
+const HEADER = `[@TestUser][1] ("Test user") [wrote][2]:`
+const HEADER_REFS = [
+    "[1]: https://twitter.com/TestUser",
+    "[2]: https://twitter.com/TestUser/status/0000",
+]
+
+async function assertRenders(post: Tweet|Thread, expected: string[]) {
+    const attachments = new NoOpAttachmentColletor()
+    assertEquals(await post.toMarkdown({attachments}), expected.join("\n"))
 }
 
-
 // See: https://github.com/crosstype/node-html-markdown/issues/16
-Deno.test("links with spaces", () => {
-    assertRenders(
-        `<a href="https://www.google.com/">Link One</a> <a href="https://www.google.com/">Link Two</a>`,
-        [
-            "[Link One][1] [Link Two][2]",
-            "",
-            "[1]: https://www.google.com/",
-            "[2]: https://www.google.com/",
-        ].join("\n")
-    )
-});
-
-
-// See: https://github.com/mixmark-io/turndown/issues/393
-// Until this is fixed, can't use referenced shortcuts.
-Deno.test("turndown referenced shortcuts", () => {
-    const input = `<a href="https://www.google.com/">Link</a> <a href="https://www.wikipedia.org/">Link</a>`
-    // const expectedGood = [
-    //     "[Link] [Link][1]",
-    //     "",
-    //     "[Link]: https://www.google.com/",
-    //     "[1]: https://www.wikipedia.org/",
-    // ].join("\n")
-
-    // But what we actually get:
-    const expectedBad = [
-        "[Link] [Link]",
-        "",
-        "[Link]: https://www.google.com/",
-        "[Link]: https://www.wikipedia.org/",
-    ].join("\n")
-
-    assertEquals(expectedBad, renderWith(refShortcut, input))
+// And: https://github.com/mixmark-io/turndown/issues/393
+Deno.test("Links are numbered references", async () => {
+    const tweet = new Tweet(tweetWithBody("Here is (https://example.com/foo and https://www.examle.com/bar) the thing."))
+    await assertRenders(tweet, [
+        HEADER,
+        "",
+        "> Here is ([https://example.com/foo][3] and [https://www.examle.com/bar][4]) the thing.",
+        "",
+        ...HEADER_REFS,
+        "[3]: https://example.com/foo",
+        "[4]: https://www.examle.com/bar",
+    ])
 })
 
+Deno.test("Link @mentions", async () => {
+    await assertRenders(new Tweet(tweetWithBody("@foo and @bar should be linked")), [
+        HEADER,
+        "",
+        "> [@foo][3] and [@bar][4] should be linked",
+        "",
+        ...HEADER_REFS,
+        "[3]: https://twitter.com/foo",
+        "[4]: https://twitter.com/bar",
+    ])
 
-Deno.test("line breaks should just be a single break, not a paragraph", () => {
-    // Works as expected:
-    assertRenders(
-        [
-            "<p>Foo1<br>bar1"
-        ],
-        [
-            "Foo1  ",
-            "bar1"
-        ]
-    )
-
-    assertRenders(
-        [
-            "<p>Foo2",
-            "bar2"
-        ],
-        [
-            "Foo2 bar2",
-        ]
-    )
-
-    assertRenders(
-        [
-            "<p>Foo3",
-            "<br>bar3"
-        ],
-        [
-            // Weird edge case, <br> adds 2 spaces, for a total of 3. Should still be OK for a break, though:
-            "Foo3   ",
-            "bar3",
-        ]
-    )
+    await assertRenders(new Tweet(tweetWithBody(".@foo, but not .@bar should be linked")), [
+        HEADER,
+        "",
+        "> .[@foo][3], but not .@bar should be linked",
+        "",
+        ...HEADER_REFS,
+        "[3]: https://twitter.com/foo",
+    ])
 })
 
-Deno.test("Newlines with inline tags", () => {
-    assertRenders(`foo\n<b>bar</b>`, `foo **bar**`)
+Deno.test("Line breaks are a single break, not a paragraph", async () => {
+    await assertRenders(new Tweet(tweetWithBody("Foo\nbar")), [
+        HEADER,
+        "",
+        "> Foo  ",
+        "> bar",
+        "",
+        ...HEADER_REFS,
+    ])
 })
 
-Deno.test("whitespace in blocks", () => {
-    assertRenders(
-        `<blockquote> <p>Foo\n\n\nbar</p> </blockquote>`,
-        `> Foo bar`
-    )
+Deno.test("Text that looks like Markdown is escaped", async () => {
+    await assertRenders(new Tweet(tweetWithBody("*not* _emphasis_ <b>or</b> [a link](foo)\n- nor a list")), [
+        HEADER,
+        "",
+        "> \\*not\\* \\_emphasis\\_ \\<b\\>or\\</b\\> \\[a link\\](foo)  ",
+        "> \\- nor a list",
+        "",
+        ...HEADER_REFS,
+    ])
 })
 
-Deno.test("dangling text nodes after </p>", () => {
-    // Closing paragraphs leaves dangling text nodes: 
-    assertRenders(
-        `<p>Para 1</p> <p>Para 2</p> `, 
-        
-        // Want:
-        // `Para 1\n\nPara 2`
+Deno.test("Threads render as one post, without stray blank lines", async () => {
+    const first = tweetWithBody("1/ A thread")
+    const second = tweetWithBody("2/ The end")
+    second.id_str = "0001"
+    second.in_reply_to_status_id_str = "0000"
+    second.in_reply_to_screen_name = "TestUser"
+    second.in_reply_to_user_id_str = "1234"
 
-        // Get:
-        `Para 1\n\n \n\nPara 2`
-    )
+    const secondTweet = new Tweet(second)
+    assertEquals(secondTweet.selfReplyToID, "0000")
 
-    // My "solution" is going to be to avoid </p> tags.
+    await assertRenders(new Thread([new Tweet(first), secondTweet]), [
+        `[@TestUser][1] ("Test user") [wrote][2] a thread:`,
+        "",
+        "> 1/ A thread",
+        "",
+        "> 2/ The end",
+        "",
+        ...HEADER_REFS,
+    ])
 })
 
-Deno.test("dangling nodes after </blockquote>", () => {
-    // Same problem here as with </p>.
-    assertRenders(
-        `<blockquote> <blockquote><p>Hello</blockquote> <p>world!</blockquote>`,
+Deno.test("Nested quotes, without stray blank lines", async () => {
+    const retweet = tweetWithBody("RT @other: Hello")
+    retweet.retweeted_status = {
+        ...tweetWithBody("Hello"),
+        id_str: "0002",
+        user: {id_str: "5678", name: "Other user", screen_name: "other", protected: false},
+    }
 
-        // Want:
-        // `> > Hello\n> \n> world!`
+    await assertRenders(new Tweet(retweet), [
+        `[@TestUser][1] ("Test user") [retweeted][2]:`,
+        "",
+        `> [@other][3] ("Other user") [wrote][4]:`,
+        "> ",
+        "> > Hello",
+        "",
+        ...HEADER_REFS,
+        "[3]: https://twitter.com/other",
+        "[4]: https://twitter.com/other/status/0002",
+    ])
+})
 
-        // Get:
-        `> > Hello\n> \n>  \n> \n> world!`
-    )
+Deno.test("Entities, emoji, and escaping", async () => {
+    const json = tweetWithBody("😀 Hi @foo &amp; <b> https://t.co/abc https://t.co/media")
+    json.entities = {
+        urls: [{
+            indices: [16, 32],
+            url: "https://t.co/abc",
+            display_url: "example.com/?a=1&b=2",
+            expanded_url: "https://example.com/?a=1&b=2",
+        }],
+        user_mentions: [{indices: [5, 9], id_str: "1", screen_name: "foo", name: "Foo"}],
+    }
+    json.extended_entities = {
+        media: [{
+            type: "photo",
+            indices: [33, 51],
+            url: "https://t.co/media",
+            display_url: "pic.twitter.com/media",
+            media_url: "http://pbs.twimg.com/media/x.jpg",
+            media_url_https: "https://pbs.twimg.com/media/x.jpg",
+        }]
+    }
 
-    // My "solution"... don't bother joining lines with \n when I generate HTML.
-    // There's no way to get at the empty text nodes between blocks. 
-    // Turndown just passes them through:
-    // https://github.com/mixmark-io/turndown/blob/ef41a54852afefb9383a5aa0668e1054bda3cc9b/src/turndown.js#L163
+    await assertRenders(new Tweet(json), [
+        HEADER,
+        "",
+        "> 😀 Hi [@foo][3] \\& \\<b\\> [https://example.com/?a=1\\&b=2][4]",
+        "> ",
+        "> [![](https://pbs.twimg.com/media/x.jpg)][5]",
+        "",
+        ...HEADER_REFS,
+        "[3]: https://twitter.com/foo",
+        "[4]: https://example.com/?a=1&b=2",
+        "[5]: https://pbs.twimg.com/media/x.jpg",
+    ])
 })
+
+function tweetWithBody(body: string): TweetJSON {
+    return {
+        id_str: "0000",
+        created_at: "2000-01-01 00:00:00Z",
+        full_text: body,
+        is_quote_status: false,
+        user: {
+            id_str: "1234",
+            name: "Test user",
+            screen_name: "TestUser",
+            protected: false
+        }
+    }
+}
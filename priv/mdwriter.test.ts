@@ -0,0 +1,72 @@
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { MarkdownWriter, truncate } from "./mdwriter.ts";
+
+// Corner cases that HTML-to-Markdown converters tend to get wrong.
+
+Deno.test("links with spaces", () => {
+    const md = MarkdownWriter.create()
+    md.paragraph(`${md.link("Link One", "https://www.google.com/")} ${md.link("Link Two", "https://www.google.com/")}`)
+    assertEquals(md.toString(), [
+        "[Link One][1] [Link Two][2]",
+        "",
+        "[1]: https://www.google.com/",
+        "[2]: https://www.google.com/",
+    ].join("\n"))
+})
+
+Deno.test("line breaks are a single break, not a paragraph", () => {
+    const md = MarkdownWriter.create()
+    md.paragraph(md.text("Foo\nbar"))
+    assertEquals(md.toString(), "Foo  \nbar")
+})
+
+Deno.test("paragraphs", () => {
+    const md = MarkdownWriter.create()
+    md.paragraph("Para 1")
+    md.paragraph(" ")
+    md.paragraph("Para 2")
+    assertEquals(md.toString(), "Para 1\n\nPara 2")
+})
+
+Deno.test("nested blockquotes", () => {
+    const md = MarkdownWriter.create()
+    const outer = md.nested()
+    const inner = outer.nested()
+    inner.paragraph("Hello")
+    outer.quote(inner)
+    outer.paragraph("world!")
+    md.quote(outer)
+    assertEquals(md.toString(), "> > Hello\n> \n> world!")
+})
+
+Deno.test("escaping", () => {
+    const md = MarkdownWriter.create()
+    assertEquals(md.text("*not* _emphasis_ or [a link](foo)"), "\\*not\\* \\_emphasis\\_ or \\[a link\\](foo)")
+    assertEquals(md.text("# Not a heading\n- nor a list\n1. nor this"), "\\# Not a heading  \n\\- nor a list  \n1\\. nor this")
+    assertEquals(md.text("<b>&amp;</b>"), "\\<b\\>\\&amp;\\</b\\>")
+})
+
+Deno.test("link references are numbered in document order", () => {
+    const md = MarkdownWriter.create()
+    md.paragraph(md.link("one", "https://example.com/1"))
+    const quote = md.nested()
+    quote.paragraph(quote.link(quote.image("files/a b.jpg"), "https://example.com/(2)"))
+    md.quote(quote)
+    md.paragraph(md.link("three", "https://example.com/3"))
+    assertEquals(md.toString(), [
+        "[one][1]",
+        "",
+        "> [![](<files/a b.jpg>)][2]",
+        "",
+        "[three][3]",
+        "",
+        "[1]: https://example.com/1",
+        "[2]: <https://example.com/(2)>",
+        "[3]: https://example.com/3",
+    ].join("\n"))
+})
+
+Deno.test("truncate", () => {
+    assertEquals(truncate("  short\n text ", 80), "short text")
+    assertEquals(truncate("A longer sentence.", 10), "A longer …")
+})
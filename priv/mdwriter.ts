@@ -0,0 +1,110 @@
+/**
+ * Writes Markdown directly, escaping text so that it renders as written.
+ * (See markdown.test.ts for the corner cases this handles.)
+ *
+ * Links are written in the "referenced" style, with numbered
+ * references collected at the end of the document. That keeps long URLs from cluttering
+ * up the text when reading the raw Markdown.
+ */
+export class MarkdownWriter {
+    private blocks: string[] = []
+
+    /**
+     * @param refs Link references. Shared with nested() writers, so that references
+     *   are numbered in the order they appear in the document.
+     */
+    private constructor(private refs: string[]) {}
+
+    static create(): MarkdownWriter {
+        return new MarkdownWriter([])
+    }
+
+    /** A writer for content nested in this one. (ex: for quote()) */
+    nested(): MarkdownWriter {
+        return new MarkdownWriter(this.refs)
+    }
+
+    /** Escape plain text so it renders as-is. Newlines become line breaks. */
+    text(text: string): string {
+        return escapeText(text).replaceAll("\n", "  \n")
+    }
+
+    /**
+     * @param markdown the link text, as Markdown. (ex: from text())
+     * @returns Markdown for a link to url.
+     */
+    link(markdown: string, url: string): string {
+        this.refs.push(url)
+        return `[${markdown}][${this.refs.length}]`
+    }
+
+    /** @returns Markdown for an inline image. */
+    image(src: string, alt = ""): string {
+        return `![${escapeText(alt)}](${destination(src)})`
+    }
+
+    /** Add a paragraph of (inline) Markdown. Empty paragraphs are skipped. */
+    paragraph(markdown: string): void {
+        if (markdown.trim() === "") { return }
+        this.blocks.push(markdown)
+    }
+
+    heading(level: number, markdown: string): void {
+        this.blocks.push(`${"#".repeat(level)} ${markdown}`)
+    }
+
+    list(items: string[]): void {
+        if (items.length == 0) { return }
+        this.blocks.push(items.map(item => `* ${item}`).join("\n"))
+    }
+
+    orderedList(items: string[]): void {
+        if (items.length == 0) { return }
+        this.blocks.push(items.map((item, index) => `${index + 1}. ${item}`).join("\n"))
+    }
+
+    /** Add the contents of a nested() writer as a blockquote. */
+    quote(inner: MarkdownWriter): void {
+        const content = inner.content
+        if (content === "") { return }
+        this.blocks.push(content.replace(/^/gm, "> "))
+    }
+
+    /** The Markdown written so far, not including link references. */
+    get content(): string {
+        return this.blocks.join("\n\n")
+    }
+
+    /** The whole document, including link references. */
+    toString(): string {
+        const refs = this.refs.map((url, index) => `[${index + 1}]: ${destination(url)}`)
+        return [this.content, refs.join("\n")].filter(it => it !== "").join("\n\n")
+    }
+}
+
+/**
+ * Backslash-escape anything that Markdown might interpret as formatting.
+ *
+ * Escaping punctuation is always safe in CommonMark, so where it's ambiguous
+ * (ex: is this at the start of a line?) we err on the side of escaping.
+ */
+export function escapeText(text: string): string {
+    return text
+        .replaceAll(/[\\`*_[\]<>~|&]/g, "\\$&")
+        // Headings, lists, and setext underlines at the start of a line:
+        .replaceAll(/^(\s*)([#+=-])/gm, "$1\\$2")
+        .replaceAll(/^(\s*\d+)([.)])/gm, "$1\\$2")
+}
+
+/** Collapse text onto one line, and cut it off with an ellipsis if it's longer than maxLength. */
+export function truncate(text: string, maxLength: number): string {
+    text = text.replaceAll(/\s+/g, " ").trim()
+    if (text.length <= maxLength) { return text }
+    return text.substring(0, maxLength - 1) + "…"
+}
+
+/** Link destinations need <brackets> if they contain spaces or parentheses. */
+function destination(url: string): string {
+    if (!/[\s()<>]/.test(url)) { return url }
+    return `<${url.replaceAll("<", "%3C").replaceAll(">", "%3E")}>`
+}
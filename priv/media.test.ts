@@ -0,0 +1,51 @@
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { imageURLs, videoVariants } from "./media.ts";
+import { Media } from "./twitter.ts";
+
+const IMAGE = "https://pbs.twimg.com/media/abc.jpg"
+
+function video(): Media {
+    const url = (size: string) => `https://video.twimg.com/ext_tw_video/1/pu/vid/${size}/abc.mp4?tag=12`
+    return {
+        type: "video",
+        indices: [0, 0],
+        url: "https://t.co/abc",
+        display_url: "pic.twitter.com/abc",
+        media_url: "http://pbs.twimg.com/ext_tw_video_thumb/1/pu/img/abc.jpg",
+        media_url_https: "https://pbs.twimg.com/ext_tw_video_thumb/1/pu/img/abc.jpg",
+        video_info: {
+            variants: [
+                {bitrate: 832000, content_type: "video/mp4", url: url("640x360")},
+                {content_type: "application/x-mpegURL", url: "https://video.twimg.com/ext_tw_video/1/pu/pl/abc.m3u8"},
+                {bitrate: 2176000, content_type: "video/mp4", url: url("1280x720")},
+                {bitrate: 256000, content_type: "video/mp4", url: url("480x270")},
+            ]
+        },
+    }
+}
+
+Deno.test("Image sizes", () => {
+    const media = {...video(), media_url_https: IMAGE, video_info: undefined}
+
+    assertEquals(imageURLs(media, {}), {
+        url: IMAGE,
+        smaller: [`${IMAGE}?name=small`],
+    })
+
+    assertEquals(imageURLs(media, {imageSize: "large"}), {
+        url: `${IMAGE}?name=large`,
+        smaller: [`${IMAGE}?name=medium`, `${IMAGE}?name=small`],
+        original: `${IMAGE}?name=orig`,
+    })
+})
+
+Deno.test("Video variants", () => {
+    const resolutions = (variants: {url: string}[]) => variants.map(it => /vid\/(\w+)/.exec(it.url)![1])
+
+    assertEquals(resolutions(videoVariants(video(), {})), ["1280x720", "640x360", "480x270"])
+    assertEquals(resolutions(videoVariants(video(), {maxVideoResolution: 480})), ["640x360", "480x270"])
+    assertEquals(resolutions(videoVariants(video(), {maxVideoBitrate: 500_000})), ["480x270"])
+
+    // If nothing fits, use the smallest:
+    assertEquals(resolutions(videoVariants(video(), {maxVideoBitrate: 1000})), ["480x270"])
+})
@@ -0,0 +1,76 @@
+import { IMAGE_SIZES, MediaPolicy } from "./config.ts"
+import { Media, VideoVariant } from "./twitter.ts"
+
+/** Which URLs to use for a tweet's (still) image. */
+export interface ImageURLs {
+    /** The image at the configured size. */
+    url: string
+
+    /** Smaller versions to try if url is too big to copy. Largest first. */
+    smaller: string[]
+
+    /** The original image, if url may be downscaled. */
+    original?: string
+}
+
+/**
+ * Twitter serves downscaled images if you ask for them by name.
+ * See: https://developer.twitter.com/en/docs/twitter-api/v1/data-dictionary/object-model/entities#photo_format
+ */
+export function imageURLs(media: Media, policy: MediaPolicy): ImageURLs {
+    const base = media.media_url_https
+    const sized = (size: string) => `${base}?name=${size}`
+
+    // Twitter's default size is "medium":
+    const start = IMAGE_SIZES.indexOf(policy.imageSize ?? "medium")
+    const smaller = IMAGE_SIZES.slice(start + 1).map(sized)
+
+    if (!policy.imageSize) {
+        return {url: base, smaller}
+    }
+    if (policy.imageSize == "orig") {
+        return {url: sized("orig"), smaller}
+    }
+    return {url: sized(policy.imageSize), smaller, original: sized("orig")}
+}
+
+/**
+ * Choose the video variants to use, in order of preference.
+ *
+ * The first is the best variant within the policy's bitrate and resolution limits.
+ * (Or the smallest, if none are within them.) The rest are smaller alternatives, in
+ * case it's too big to copy.
+ */
+export function videoVariants(media: Media, policy: MediaPolicy): VideoVariant[] {
+    // There's also an HLS playlist (application/x-mpegURL), which we can't copy:
+    const mp4s = (media.video_info?.variants ?? []).filter(it => it.content_type === "video/mp4")
+    const variants = mp4s.length > 0 ? mp4s : [...(media.video_info?.variants ?? [])]
+    variants.sort((a, b) => (b.bitrate || 0) - (a.bitrate || 0))
+
+    const fits = (variant: VideoVariant) => {
+        const {maxVideoBitrate, maxVideoResolution} = policy
+        if (maxVideoBitrate !== undefined && (variant.bitrate ?? 0) > maxVideoBitrate) { return false }
+        const resolution = videoResolution(variant)
+        if (maxVideoResolution !== undefined && resolution !== undefined && resolution > maxVideoResolution) { return false }
+        return true
+    }
+
+    const index = variants.findIndex(fits)
+    if (index < 0) {
+        return variants.slice(-1)
+    }
+    return variants.slice(index)
+}
+
+/**
+ * The length of a video's shorter side, in pixels. ex: 720 for 1280x720.
+ * Twitter doesn't give us dimensions for variants, but does put them in the URL. ex:
+ * https://video.twimg.com/ext_tw_video/123/pu/vid/1280x720/abc.mp4?tag=12
+ */
+export function videoResolution(variant: VideoVariant): number|undefined {
+    const match = RESOLUTION_PAT.exec(new URL(variant.url).pathname)
+    if (!match) { return undefined }
+    return Math.min(Number(match[1]), Number(match[2]))
+}
+
+const RESOLUTION_PAT = /\/(\d+)x(\d+)\//
@@ -0,0 +1,156 @@
+import { feoblog, io, log } from "./deps.ts"
+import { Attachment } from "./attachments.ts"
+
+const logger = log.getLogger()
+
+/**
+ * A FeoBlog server which mirrors a user's items from a primary server.
+ * 
+ * Items are signed, so we can copy the exact same bytes to as many servers as we like.
+ * Each mirror keeps its own resume point: its latest item. If it falls behind the
+ * primary (ex: it was down), we backfill it from the primary.
+ *
+ * An item can make it to the mirror without all of its attachments, so backfilling
+ * also copies any that are missing from the mirror's latest item.
+ */
+export class Mirror {
+    readonly client: feoblog.Client
+
+    /** Set when this mirror fails. We skip it until the next backfill. */
+    failed = false
+
+    constructor(readonly url: string) {
+        this.client = new feoblog.Client({baseURL: url})
+    }
+
+    /**
+     * Copy posts and comments (and their attachments) that the primary has, but which are
+     * newer than this mirror's latest one for userID. Also copy the primary's profile if it differs.
+     * @returns the number of items copied.
+     */
+    async backfill(primaryURL: string, userID: feoblog.UserID): Promise<number> {
+        const primary = new feoblog.Client({baseURL: primaryURL})
+        const latest = await latestItem(this.client, userID)
+        if (latest) {
+            await this.copyMissingAttachments(primaryURL, userID, latest.signature)
+        }
+
+        // Items come newest first.
+        // Note: Only posts and comments have timestamps that follow the order we post them in.
+        // (Profiles use the current time.)
+        const missing: string[] = []
+        for await (const entry of primary.getUserItems(userID)) {
+            if (!isOrdered(entry.item_type)) { continue }
+            if (latest && entry.timestamp_ms_utc <= latest.timestamp) { break }
+            const sig = feoblog.Signature.fromBytes(entry.signature.bytes)
+            missing.push(sig.toString())
+        }
+
+        const primaryProfile = await primary.getProfile(userID)
+        const mirrorProfile = await this.client.getProfile(userID)
+        const profileSig = primaryProfile?.signature.toString()
+        if (profileSig && profileSig !== mirrorProfile?.signature.toString()) {
+            missing.unshift(profileSig)
+        }
+
+        if (missing.length == 0) { return 0 }
+        logger.info(() => `Backfilling ${missing.length} items from ${primaryURL} to ${this.url}`)
+
+        // Copy oldest first, so that we can resume if something goes wrong:
+        missing.reverse()
+        for (const sigString of missing) {
+            await this.copyItem(primaryURL, userID, sigString)
+        }
+        return missing.length
+    }
+
+    private async copyItem(primaryURL: string, userID: feoblog.UserID, sigString: string) {
+        const itemURL = `${primaryURL}/u/${userID}/i/${sigString}`
+        const response = await fetchOK(`${itemURL}/proto3`)
+        const itemBytes = new Uint8Array(await response.arrayBuffer())
+        const sig = feoblog.Signature.fromString(sigString)
+        await this.client.putItem(userID, sig, itemBytes)
+
+        const item = feoblog.protobuf.Item.deserialize(itemBytes)
+        for (const file of item.post?.attachments?.file ?? []) {
+            await this.copyAttachment(itemURL, userID, sig, file)
+        }
+    }
+
+    /** Copy the attachments of an item this mirror already has, if they're missing. */
+    private async copyMissingAttachments(primaryURL: string, userID: feoblog.UserID, sigString: string) {
+        const mirrorItemURL = `${this.url}/u/${userID}/i/${sigString}`
+        const response = await fetchOK(`${mirrorItemURL}/proto3`)
+        const item = feoblog.protobuf.Item.deserialize(new Uint8Array(await response.arrayBuffer()))
+        const sig = feoblog.Signature.fromString(sigString)
+
+        for (const file of item.post?.attachments?.file ?? []) {
+            const head = await fetch(`${mirrorItemURL}/files/${encodeURIComponent(file.name)}`, {method: "HEAD"})
+            if (head.status != 404) { continue }
+
+            logger.info(() => `Copying missing attachment ${file.name} of ${sigString} to ${this.url}`)
+            await this.copyAttachment(`${primaryURL}/u/${userID}/i/${sigString}`, userID, sig, file)
+        }
+    }
+
+    private async copyAttachment(itemURL: string, userID: feoblog.UserID, sig: feoblog.Signature, file: feoblog.protobuf.File) {
+        const fileResponse = await fetchOK(`${itemURL}/files/${encodeURIComponent(file.name)}`)
+        await this.client.putAttachment(userID, sig, file.name, file.size, fileResponse.body!)
+    }
+
+    /** 
+     * Put an item (that we've already put to the primary) to this mirror.
+     * On failure, log a warning and skip this mirror until its next backfill.
+     */
+    async tryPut(userID: feoblog.UserID, sig: feoblog.Signature, itemBytes: Uint8Array, attachments: readonly Attachment[]) {
+        if (this.failed) { return }
+        try {
+            await this.client.putItem(userID, sig, itemBytes)
+            for (const attachment of attachments) {
+                await attachment.withReader(async (reader) => {
+                    const stream = io.readableStreamFromReader(reader)
+                    await this.client.putAttachment(userID, sig, attachment.name, attachment.size, stream)
+                })
+            }
+        } catch (error) {
+            logger.warning(() => `Error copying item to mirror ${this.url}. Will backfill it on the next run. ${error}`)
+            this.failed = true
+        }
+    }
+
+    /** Backfill, but on failure, log a warning and skip this mirror for now. */
+    async tryBackfill(primaryURL: string, userID: feoblog.UserID) {
+        try {
+            await this.backfill(primaryURL, userID)
+            this.failed = false
+        } catch (error) {
+            logger.warning(() => `Error backfilling mirror ${this.url}. Skipping it for now. ${error}`)
+            this.failed = true
+        }
+    }
+}
+
+/** Items whose timestamps follow the order we posted them in. (ex: Not profiles.) */
+function isOrdered(itemType: feoblog.protobuf.ItemType): boolean {
+    const {POST, COMMENT} = feoblog.protobuf.ItemType
+    return itemType == POST || itemType == COMMENT
+}
+
+async function latestItem(client: feoblog.Client, userID: feoblog.UserID): Promise<{timestamp: number, signature: string}|null> {
+    for await (const entry of client.getUserItems(userID)) {
+        if (!isOrdered(entry.item_type)) { continue }
+        return {
+            timestamp: entry.timestamp_ms_utc,
+            signature: feoblog.Signature.fromBytes(entry.signature.bytes).toString(),
+        }
+    }
+    return null
+}
+
+async function fetchOK(url: string): Promise<Response> {
+    const response = await fetch(url)
+    if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText} fetching ${url}`)
+    }
+    return response
+}
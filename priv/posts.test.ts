@@ -0,0 +1,102 @@
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { asComment, collapseThreads, makeDigests, readyPosts, Thread, Tweet } from "../feotweet.ts";
+import { path } from "./deps.ts";
+import { SyncState } from "./state.ts";
+
+// Tests for how tweets get grouped into posts.
+
+Deno.test("Digests cover whole windows that have ended", () => {
+    const tweets = [
+        tweetAt("1", "2021-07-01T09:59:59.000Z"),
+        tweetAt("2", "2021-07-01T10:00:00.000Z"),
+        tweetAt("3", "2021-07-01T10:59:59.000Z"),
+        tweetAt("4", "2021-07-01T11:00:00.000Z"),
+    ]
+
+    const digests = makeDigests(tweets, "hour", Date.parse("2021-07-01T11:00:00.000Z"))
+    assertEquals(digests.map(it => it.tweetIDs), [["1"], ["2", "3"]])
+    assertEquals(new Date(digests[1].start).toISOString(), "2021-07-01T10:00:00.000Z")
+    // Just before the next window, so that we resume with the tweets in it:
+    assertEquals(new Date(digests[1].timestamp).toISOString(), "2021-07-01T10:59:59.999Z")
+
+    // The 11:00 window hasn't ended yet, until:
+    assertEquals(makeDigests(tweets, "hour", Date.parse("2021-07-01T11:59:59.999Z")).length, 2)
+    assertEquals(makeDigests(tweets, "hour", Date.parse("2021-07-01T12:00:00.000Z")).length, 3)
+
+    // Days are in UTC:
+    const days = makeDigests(tweets, "day", Date.parse("2021-07-02T00:00:00.000Z"))
+    assertEquals(days.map(it => it.tweetIDs), [["1", "2", "3", "4"]])
+    assertEquals(makeDigests(tweets, "day", Date.parse("2021-07-01T23:59:59.999Z")), [])
+})
+
+Deno.test("Recent threads hold back everything after their first tweet", () => {
+    const tweets = [
+        tweetAt("1", "2021-07-01T10:00:00.000Z"),
+        tweetAt("2", "2021-07-01T10:10:00.000Z"),
+        tweetAt("3", "2021-07-01T10:20:00.000Z", "2"),
+        tweetAt("4", "2021-07-01T10:30:00.000Z"),
+        // Recent, so the thread may not be done yet:
+        tweetAt("5", "2021-07-01T10:50:00.000Z", "3"),
+    ]
+
+    const posts = collapseThreads(tweets)
+    assertEquals(posts.map(it => it.tweetIDs), [["1"], ["4"], ["2", "3", "5"]])
+    assertEquals(posts[2] instanceof Thread, true)
+
+    // Tweet 4 is old enough, but if we posted it, we'd resume after it, and skip the thread:
+    const ready = readyPosts(posts, 30, Date.parse("2021-07-01T11:00:00.000Z"))
+    assertEquals(ready.map(it => it.tweetIDs), [["1"]])
+
+    // Once the thread settles, everything is ready:
+    assertEquals(readyPosts(posts, 30, Date.parse("2021-07-01T11:20:00.000Z")).length, 3)
+
+    // Without threads, posts are ready once they're exactly waitMinutes old:
+    const singles = collapseThreads([tweets[0], tweets[3]])
+    assertEquals(readyPosts(singles, 30, Date.parse("2021-07-01T10:59:59.000Z")).map(it => it.tweetIDs), [["1"]])
+    assertEquals(readyPosts(singles, 30, Date.parse("2021-07-01T11:00:00.000Z")).length, 2)
+})
+
+Deno.test("Replies to tweets we've posted become comments", async () => {
+    const dir = await Deno.makeTempDir({prefix: "feotweet-posts-test-"})
+    try {
+        const state = await SyncState.load(path.join(dir, "state.json"))
+        const post = {userID: "me", signature: "postSig"}
+        state.recordPost("user:TestUser", ["1"], post)
+        state.recordPost("user:TestUser", ["2"], {userID: "me", signature: "commentSig", commentOn: post})
+        state.recordPost("home", ["3"], {userID: "someoneElse", signature: "otherSig"})
+
+        const reply = (id: string, replyTo: string) => tweetAt(id, "2021-07-01T10:00:00.000Z", replyTo)
+        assertEquals(asComment(state, "me", reply("10", "1"))?.replyTo, post)
+        // Replies to comments go on the same post, to keep the conversation in one place:
+        assertEquals(asComment(state, "me", reply("11", "2"))?.replyTo, post)
+        // If we've only posted it to another user, comment there:
+        assertEquals(asComment(state, "me", reply("12", "3"))?.replyTo, {userID: "someoneElse", signature: "otherSig"})
+
+        // Otherwise, it's a regular post:
+        assertEquals(asComment(state, "me", reply("13", "4")), undefined)
+        assertEquals(asComment(state, "me", tweetAt("14", "2021-07-01T10:00:00.000Z")), undefined)
+        assertEquals(asComment(undefined, "me", reply("15", "1")), undefined)
+        // Threads are posted whole:
+        assertEquals(asComment(state, "me", new Thread([reply("16", "1"), reply("17", "16")])), undefined)
+    } finally {
+        await Deno.remove(dir, {recursive: true})
+    }
+})
+
+function tweetAt(id: string, createdAt: string, selfReplyTo?: string): Tweet {
+    return new Tweet({
+        id_str: id,
+        created_at: createdAt,
+        full_text: `Tweet ${id}`,
+        is_quote_status: false,
+        in_reply_to_status_id_str: selfReplyTo,
+        in_reply_to_user_id_str: selfReplyTo ? "1234" : undefined,
+        in_reply_to_screen_name: selfReplyTo ? "TestUser" : undefined,
+        user: {
+            id_str: "1234",
+            name: "Test user",
+            screen_name: "TestUser",
+            protected: false
+        }
+    })
+}
@@ -0,0 +1,32 @@
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { TwitterProfile } from "./profile.ts";
+import { UserJSON } from "./twitter.ts";
+
+function user(imageURL: string, description: string): UserJSON {
+    return {
+        id_str: "1234",
+        name: "Test user",
+        screen_name: "TestUser",
+        protected: false,
+        description,
+        profile_image_url_https: imageURL,
+    }
+}
+
+Deno.test("Reuse copied images until they change", () => {
+    const copied = [{name: "avatar.png", path: "/u/someUser/i/someSig/files/avatar.png"}]
+    const before = new TwitterProfile(user("https://pbs.twimg.com/profile_images/1/a_normal.png", "Old bio"))
+    const about = before.about(copied)
+
+    // Only the bio changed:
+    const after = new TwitterProfile(user("https://pbs.twimg.com/profile_images/1/a_normal.png", "New bio ![x](y)"))
+    assertEquals(after.matches("Test user", about), false)
+    assertEquals(after.copiedImagesIn(about), copied)
+
+    // The avatar changed:
+    const newAvatar = new TwitterProfile(user("https://pbs.twimg.com/profile_images/2/b_normal.png", "Old bio"))
+    assertEquals(newAvatar.copiedImagesIn(about), undefined)
+
+    // It wasn't copied last time:
+    assertEquals(after.copiedImagesIn(before.about()), undefined)
+})
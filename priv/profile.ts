@@ -0,0 +1,126 @@
+import { escapeText } from "./mdwriter.ts"
+import { UserJSON } from "./twitter.ts"
+
+/**
+ * Converts a Twitter user's profile into the parts of a FeoBlog profile.
+ * 
+ * FeoBlog profiles can't have attachments, so when we copy the avatar/banner
+ * they get attached to a separate Post, and the profile links to them there.
+ */
+export class TwitterProfile {
+    constructor(readonly json: UserJSON) {}
+
+    get displayName(): string {
+        return this.json.name || this.json.screen_name
+    }
+
+    get url(): string {
+        return `https://twitter.com/${this.json.screen_name}`
+    }
+
+    /** The original size avatar, if the user has one. */
+    get avatar(): ProfileImage|undefined {
+        const url = this.json.profile_image_url_https
+        if (!url || this.json.default_profile_image) { return undefined }
+        const original = url.replace(/_normal(\.\w+)$/, "$1")
+        const ext = /\.(\w+)$/.exec(original)?.[1] ?? "jpg"
+        return {url: original, fileName: `avatar.${ext}`}
+    }
+
+    get banner(): ProfileImage|undefined {
+        const url = this.json.profile_banner_url
+        if (!url) { return undefined }
+        return {url: `${url}/1500x500`, fileName: "banner.jpg"}
+    }
+
+    get images(): ProfileImage[] {
+        return [this.avatar, this.banner].filter((it): it is ProfileImage => it !== undefined)
+    }
+
+    /**
+     * The text of the "about" section, not including copied images.
+     * 
+     * This is deterministic, and includes the image source URLs (which change when
+     * the images do), so we can compare it to tell whether the profile has changed.
+     */
+    get aboutText(): string {
+        const json = this.json
+        const lines: string[] = []
+
+        if (json.description) {
+            let description = json.description
+            for (const urlMeta of json.entities?.description?.urls ?? []) {
+                description = description.replaceAll(urlMeta.url, urlMeta.expanded_url)
+            }
+            lines.push(escapeText(description), "")
+        }
+
+        if (json.location) {
+            lines.push(`Location: ${escapeText(json.location)}  `)
+        }
+
+        const website = json.entities?.url?.urls[0]?.expanded_url ?? json.url
+        if (website) {
+            lines.push(`Website: <${website}>  `)
+        }
+
+        lines.push(`Twitter: [@${json.screen_name}](${this.url})`)
+
+        const sources = this.images.map(it => `[${it.fileName}](${it.url})`)
+        if (sources.length > 0) {
+            lines.push("", `Profile images: ${sources.join(", ")}`)
+        }
+
+        return lines.join("\n")
+    }
+
+    /**
+     * @param copied the images we copied into FeoBlog. (The rest are only linked, in aboutText.)
+     */
+    about(copied: CopiedImage[] = []): string {
+        const text = this.aboutText
+        if (copied.length == 0) { return text }
+        return [text, "", ...copied.map(it => `![${it.name}](${it.path})`)].join("\n")
+    }
+
+    /**
+     * The images that an existing profile's about text links to, if they're copies of ours.
+     * Then we can link to them again, instead of copying the same images into a new post.
+     */
+    copiedImagesIn(about: string): CopiedImage[]|undefined {
+        // (Descriptions are escaped, so only our own links have an unescaped "](".)
+        const lines = about.split("\n")
+        const sources = lines.filter(it => it.startsWith("Profile images: ")).pop() ?? ""
+        const urls = [...sources.matchAll(/\]\((\S+?)\)/g)].map(it => it[1])
+        const ours = this.images.map(it => it.url)
+        if (urls.length != ours.length || urls.some((url, i) => url != ours[i])) { return undefined }
+
+        const copied: CopiedImage[] = []
+        for (const line of lines) {
+            const match = /^!\[([^\]]*)\]\((\S+)\)$/.exec(line)
+            if (match) { copied.push({name: match[1], path: match[2]}) }
+        }
+        // If some weren't copied last time, try again:
+        if (copied.length != ours.length) { return undefined }
+        return copied
+    }
+
+    /** Does an existing FeoBlog profile already match this one? */
+    matches(displayName: string, about: string): boolean {
+        if (displayName != this.displayName) { return false }
+        return about == this.aboutText || about.startsWith(this.aboutText + "\n\n")
+    }
+}
+
+export interface ProfileImage {
+    url: string
+    fileName: string
+}
+
+/** A profile image that we've copied into FeoBlog. */
+export interface CopiedImage {
+    /** The attachment's name, which may differ from the ProfileImage's fileName. */
+    name: string
+    /** ex: /u/${userID}/i/${signature}/files/${name} */
+    path: string
+}
@@ -0,0 +1,72 @@
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { SyncState } from "./state.ts";
+import { path } from "./deps.ts";
+
+/** Run a test with the path to a state file that doesn't exist yet. */
+async function withStateFile(test: (fileName: string) => Promise<void>): Promise<void> {
+    const dir = await Deno.makeTempDir({prefix: "feotweet-state-test-"})
+    try {
+        await test(path.join(dir, "state.json"))
+    } finally {
+        await Deno.remove(dir, {recursive: true})
+    }
+}
+
+Deno.test("State round-trips through flush() and load()", async () => {
+    await withStateFile(async (fileName) => {
+        const state = await SyncState.load(fileName)
+        const post = {userID: "someUser", signature: "postSig"}
+        state.recordPost("user:jack", ["100", "101"], post)
+        state.recordPost("user:jack", ["102"], {userID: "someUser", signature: "commentSig", commentOn: post})
+        await state.flush()
+
+        const loaded = await SyncState.load(fileName)
+        assertEquals(loaded.sinceID("user:jack"), "102")
+        assertEquals(loaded.sinceID("home"), undefined)
+        assertEquals(loaded.posts("101"), [post])
+        assertEquals(loaded.hasPosted("100", "someUser"), true)
+        assertEquals(loaded.hasPosted("100", "otherUser"), false)
+        assertEquals(loaded.linkTo("100"), "/u/someUser/i/postSig/")
+        // Comments link to the post they comment on:
+        assertEquals(loaded.linkTo("102"), "/u/someUser/i/postSig/")
+        assertEquals(loaded.linkTo("103"), undefined)
+    })
+})
+
+Deno.test("sinceID compares tweet IDs as numbers", async () => {
+    await withStateFile(async (fileName) => {
+        const state = await SyncState.load(fileName)
+        const post = {userID: "someUser", signature: "sig"}
+
+        state.recordPost("home", ["999"], post)
+        state.recordPost("home", ["1000"], post)
+        assertEquals(state.sinceID("home"), "1000")
+
+        // Posting an older tweet (ex: a held-back thread) doesn't move it back:
+        state.recordPost("home", ["998"], post)
+        assertEquals(state.sinceID("home"), "1000")
+    })
+})
+
+Deno.test("Posts aren't saved until flush()", async () => {
+    await withStateFile(async (fileName) => {
+        const state = await SyncState.load(fileName)
+        await state.flush()
+        assertEquals(await exists(fileName), false)
+
+        state.recordPost("home", ["100"], {userID: "someUser", signature: "sig"})
+        assertEquals(await exists(fileName), false)
+        await state.flush()
+        assertEquals((await SyncState.load(fileName)).sinceID("home"), "100")
+    })
+})
+
+async function exists(fileName: string): Promise<boolean> {
+    try {
+        await Deno.stat(fileName)
+        return true
+    } catch (error) {
+        if (error instanceof Deno.errors.NotFound) { return false }
+        throw error
+    }
+}
@@ -0,0 +1,136 @@
+import { log } from "./deps.ts"
+
+const logger = log.getLogger()
+
+/**
+ * Local state about which tweets we've synced to FeoBlog.
+ * 
+ * Without this, we infer where to resume from the timestamp of the latest post
+ * in FeoBlog, which means each FeoBlog user may only contain posts from a single
+ * source. With it, we resume from the latest tweet ID we've posted for each source.
+ */
+export class SyncState {
+
+    /**
+     * Load state from a JSON file.
+     * If the file doesn't exist yet, start with empty state. It'll be created when we save.
+     */
+    static async load(fileName: string): Promise<SyncState> {
+        let text: string
+        try {
+            text = await Deno.readTextFile(fileName)
+        } catch (error) {
+            if (error instanceof Deno.errors.NotFound) {
+                logger.debug(() => `No state file at ${fileName}. Starting with empty state.`)
+                return new SyncState(fileName, emptyState())
+            }
+            throw new Error(`Error reading file "${fileName}": ${error}`)
+        }
+
+        const json = JSON.parse(text) as StateJSON
+        if (json.version !== STATE_VERSION) {
+            throw new Error(`Unsupported state file version ${json.version} in ${fileName}`)
+        }
+        return new SyncState(fileName, json)
+    }
+
+    private constructor(readonly fileName: string, private json: StateJSON) {}
+
+    /** Whether we've recorded posts that we haven't saved yet. */
+    private dirty = false
+
+    /** The latest tweet ID we've posted from this source. */
+    sinceID(source: string): string|undefined {
+        return this.json.sources[source]?.sinceID
+    }
+
+    /** Where (if anywhere) we've posted this tweet. */
+    posts(tweetID: string): readonly PostRecord[] {
+        return this.json.tweets[tweetID] ?? []
+    }
+
+    /**
+     * A (server-relative) URL to where we've posted this tweet in FeoBlog, if we have.
+     * If we only posted it as a comment, links to the post it comments on.
+     */
+    linkTo(tweetID: string): string|undefined {
+        const records = this.posts(tweetID)
+        const post = records.find(it => !it.commentOn) ?? records[0]?.commentOn
+        if (!post) { return undefined }
+        return `/u/${post.userID}/i/${post.signature}/`
+    }
+
+    /** Have we already posted this tweet to this FeoBlog user? */
+    hasPosted(tweetID: string, userID: string): boolean {
+        return this.posts(tweetID).some(it => it.userID === userID)
+    }
+
+    /**
+     * Record that we posted tweet(s) as an Item.
+     * (Several tweets can be posted as one Item. ex: threads)
+     * Call flush() to save it.
+     */
+    recordPost(source: string, tweetIDs: string[], post: PostRecord): void {
+        for (const id of tweetIDs) {
+            const records = this.json.tweets[id] ?? []
+            if (!records.some(it => it.userID === post.userID && it.signature === post.signature)) {
+                records.push(post)
+            }
+            this.json.tweets[id] = records
+
+            const sinceID = this.sinceID(source)
+            if (!sinceID || BigInt(id) > BigInt(sinceID)) {
+                this.json.sources[source] = {sinceID: id}
+            }
+        }
+
+        this.dirty = true
+    }
+
+    /** Save any posts recorded since the last flush(). */
+    async flush(): Promise<void> {
+        if (!this.dirty) { return }
+        await this.save()
+        this.dirty = false
+    }
+
+    /** Write to a temp file then rename, so we don't leave a partial file if interrupted. */
+    private async save() {
+        const tmpFile = `${this.fileName}.tmp`
+        await Deno.writeTextFile(tmpFile, JSON.stringify(this.json, null, 1))
+        await Deno.rename(tmpFile, this.fileName)
+    }
+}
+
+export interface PostRecord {
+    /** The FeoBlog userID we posted to. */
+    userID: string
+    /** The signature of the Item we posted. */
+    signature: string
+    /** If we posted a Comment, the Post that it comments on. */
+    commentOn?: PostRecord
+}
+
+const STATE_VERSION = 1
+
+interface StateJSON {
+    version: number
+
+    /** Per-source state. ex: "home", "user:jack" */
+    sources: Record<string, SourceState>
+
+    /** Where each tweet (by ID) has been posted. */
+    tweets: Record<string, PostRecord[]>
+}
+
+interface SourceState {
+    sinceID: string
+}
+
+function emptyState(): StateJSON {
+    return {
+        version: STATE_VERSION,
+        sources: {},
+        tweets: {},
+    }
+}
@@ -0,0 +1,67 @@
+import { assertEquals } from "https://deno.land/std@0.100.0/testing/asserts.ts";
+import { Poll } from "./cards.ts";
+import { checkTemplate, DEFAULT_TEMPLATES, DIGEST_PLACEHOLDERS, imageDescription, placeholdersFor, pollChoices, pollStatus, renderTemplate, Templates } from "./templates.ts";
+
+Deno.test("Placeholders are rendered in order, with labels", async () => {
+    const requested: string[] = []
+    const rendered = await renderTemplate("{user} {link:wrote a tweet}:\n\n{body}{quoteTweet:}", (name, label) => {
+        requested.push(`${name}/${label}`)
+        return Promise.resolve(`<${name}>`)
+    })
+
+    assertEquals(requested, ["user/undefined", "link/wrote a tweet", "body/undefined", "quoteTweet/"])
+    assertEquals(rendered, "<user> <link>:\n\n<body><quoteTweet>")
+})
+
+Deno.test("Empty placeholders don't leave extra blank lines", async () => {
+    const values: Record<string, string> = {context: "", user: "@user", body: "> text", quoteTweet: ""}
+    const value = (name: string) => Promise.resolve(values[name])
+
+    assertEquals(await renderTemplate("{context}\n\n{user}:\n\n{body}\n\n{quoteTweet}", value), "@user:\n\n> text")
+    assertEquals(await renderTemplate("{user}:\n\n{context}\n \n{quoteTweet}\n\n{body}", value), "@user:\n\n> text")
+    // Text without placeholders is left alone:
+    assertEquals(await renderTemplate("No {placeholders here", value), "No {placeholders here")
+})
+
+Deno.test("Check templates", () => {
+    for (const [type, template] of Object.entries(DEFAULT_TEMPLATES)) {
+        assertEquals(checkTemplate(template, placeholdersFor(type as keyof Templates)), undefined, type)
+    }
+
+    assertEquals(checkTemplate("{user} {link:label} {body}"), undefined)
+    assertEquals(checkTemplate("{user} {nope:label}"), "Unknown placeholder: {nope:label}")
+
+    // Not fooled by inherited properties:
+    assertEquals(checkTemplate("{toString}"), "Unknown placeholder: {toString}")
+    assertEquals(checkTemplate("{constructor}"), "Unknown placeholder: {constructor}")
+
+    // Some placeholders only make sense in some templates:
+    assertEquals(checkTemplate("{thread}"), "Unknown placeholder: {thread}")
+    assertEquals(checkTemplate("{thread}", placeholdersFor("thread")), undefined)
+    assertEquals(checkTemplate("{count} {tweets}", DIGEST_PLACEHOLDERS), undefined)
+    assertEquals(checkTemplate("{user}", DIGEST_PLACEHOLDERS), "Unknown placeholder: {user}")
+})
+
+Deno.test("Render labels", async () => {
+    const poll: Poll = {
+        choices: [{label: "Yes", count: 2}, {label: "No", count: 1}],
+        final: false,
+        endTime: "2021-07-01T00:00:00Z",
+    }
+    assertEquals(await pollStatus(poll), "Poll open until 2021-07-01T00:00:00Z. 3 votes so far.")
+    assertEquals(await pollStatus({...poll, endTime: undefined}), "Poll open. 3 votes so far.")
+    assertEquals(await pollStatus({...poll, final: true}), "Final results: 3 votes")
+
+    assertEquals(await pollChoices(poll), ["Yes: 2 votes (67%)", "No: 1 vote (33%)"])
+    assertEquals(await pollStatus({...poll, choices: [{label: "Yes", count: 1}], final: true}), "Final results: 1 vote")
+
+    const templates = {
+        ...DEFAULT_TEMPLATES,
+        pollChoice: "{choice} ({votes:Stimme|Stimmen})",
+        pollOpen: "Offen{endTime: bis}: {votes}",
+        imageDescription: "Alt: {alt}",
+    }
+    assertEquals(await pollChoices(poll, templates), ["Yes (2 Stimmen)", "No (1 Stimme)"])
+    assertEquals(await pollStatus(poll, templates), "Offen bis 2021-07-01T00:00:00Z: 3")
+    assertEquals(await imageDescription("A cat", templates), "Alt: A cat")
+})
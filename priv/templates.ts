@@ -0,0 +1,200 @@
+import { Poll } from "./cards.ts"
+
+/**
+ * Templates for how each type of tweet gets laid out in a FeoBlog post.
+ *
+ * Templates are Markdown, with {placeholders} that get replaced with parts of
+ * the tweet. Some placeholders take a label, like {link:wrote}, so that you can
+ * change (or translate) the text of the link.
+ */
+export interface Templates {
+    simple: string
+    reply: string
+    retweet: string
+    quoteTweet: string
+
+    /** A thread of self-replies. Placeholders are for its first tweet. */
+    thread: string
+    /** A thread whose first tweet is a reply. */
+    threadReply: string
+    /** Each tweet in a thread. */
+    threadTweet: string
+
+    /** A reply to a tweet we've already posted, posted as a comment on that post. */
+    comment: string
+
+    /** Many tweets, posted as one digest. See: DIGEST_PLACEHOLDERS */
+    digest: string
+
+    // Labels within a tweet. These are plain text, not Markdown. See: LABEL_PLACEHOLDERS
+
+    /** Follows each image that has a description. (AKA alt text) */
+    imageDescription: string
+    /** Each choice of a poll. */
+    pollChoice: string
+    /** Follows the choices of a poll that's still open. */
+    pollOpen: string
+    /** Follows the choices of a poll that has ended. */
+    pollFinal: string
+}
+
+export const DEFAULT_TEMPLATES: Templates = {
+    simple: "{user} {link:wrote}:\n\n{body}",
+    reply: "{context}\n\n{user} {link:replied} to a {replyTo:tweet} by {replyToUser}:\n\n{body}\n\n{quoteTweet:with quote tweet:}",
+    retweet: "{user} {link:retweeted}:\n\n{retweet}",
+    quoteTweet: "{user} {link:wrote}:\n\n{body}\n\n{quoteTweet:with quote tweet:}",
+    thread: "{user} {link:wrote} a thread:\n\n{thread}",
+    threadReply: "{context}\n\n{user} {link:replied} to a {replyTo:tweet} by {replyToUser}:\n\n{thread}",
+    threadTweet: "{body}\n\n{quoteTweet:with quote tweet:}",
+    comment: "{user} {link:replied}:\n\n{body}\n\n{quoteTweet:with quote tweet:}",
+    digest: "{count} tweets:\n\n{summary}\n\n{tweets}",
+    imageDescription: "Image description: {alt}",
+    pollChoice: "{choice}: {votes:vote|votes} ({percent}%)",
+    pollOpen: "Poll open{endTime: until}. {votes:vote|votes} so far.",
+    pollFinal: "Final results: {votes:vote|votes}",
+}
+
+/** Placeholders that templates may use, and what they're replaced with. */
+export const PLACEHOLDERS: Record<string, string> = {
+    user: `A link to the user, with their display name. ex: [@user] ("User Name")`,
+    screenName: "The user's screen name, without the @.",
+    name: "The user's display name.",
+    url: "The URL of the tweet on Twitter.",
+    link: "A link to the tweet, with the given label. (Or to our FeoBlog copy of it, if we have one.)",
+    date: "The date of the tweet, in UTC. ex: 2021-07-01",
+    timestamp: "The date and time of the tweet, in UTC. ex: 2021-07-01T12:34:56.000Z",
+    text: "The text of the tweet.",
+    media: "The tweet's images and videos.",
+    body: "The text, media, poll, and link preview of the tweet, as a blockquote.",
+    poll: "The poll's choices and vote counts, if the tweet has a poll.",
+    card: "A preview of the linked page (title, description, image), if Twitter made one.",
+    likes: "The number of likes.",
+    retweets: "The number of retweets.",
+    replyTo: "For replies, a link to the tweet being replied to, with the given label.",
+    replyToUser: "For replies, a link to the user being replied to.",
+    context: "For replies, the tweets being replied to, as nested blockquotes. (If replyContextDepth is set.)",
+    retweet: "For retweets, the retweeted tweet (rendered with its own template) as a blockquote.",
+    quoteTweet: "If there's a quote tweet, the label, followed by the quoted tweet. (Rendered with its own template.)",
+}
+
+/** Placeholders for thread and threadReply templates. */
+export const THREAD_PLACEHOLDERS: Record<string, string> = {
+    ...PLACEHOLDERS,
+    thread: "Each tweet in the thread, rendered with the threadTweet template.",
+}
+
+/** Placeholders for digest templates. */
+export const DIGEST_PLACEHOLDERS: Record<string, string> = {
+    count: "The number of tweets in the digest.",
+    summary: "A numbered list of the tweets, with a link to and a snippet of each.",
+    tweets: "Each tweet, under a numbered heading, rendered with the template for its type.",
+}
+
+/** Placeholders for the labels within a tweet. */
+export const LABEL_PLACEHOLDERS: Record<string, Record<string, string>> = {
+    imageDescription: {
+        alt: "The image's description.",
+    },
+    pollChoice: {
+        choice: "The choice's label.",
+        votes: `The number of votes for the choice, followed by the label. A label like "vote|votes" is singular|plural.`,
+        percent: "The choice's share of the votes, rounded to a whole percent.",
+    },
+    pollOpen: {
+        votes: "The total number of votes so far. (Labeled like in pollChoice.)",
+        endTime: "The label, then a space, then when the poll ends. (If Twitter says.)",
+    },
+    pollFinal: {
+        votes: "The total number of votes. (Labeled like in pollChoice.)",
+    },
+}
+
+/** The placeholders that a type of template may use. */
+export function placeholdersFor(type: keyof Templates): Record<string, string> {
+    if (type == "thread" || type == "threadReply") { return THREAD_PLACEHOLDERS }
+    if (type == "digest") { return DIGEST_PLACEHOLDERS }
+    return LABEL_PLACEHOLDERS[type] ?? PLACEHOLDERS
+}
+
+/**
+ * Returns a description of the problem with a template, if any.
+ */
+export function checkTemplate(template: string, placeholders = PLACEHOLDERS): string|undefined {
+    for (const match of template.matchAll(PLACEHOLDER_PAT)) {
+        if (!Object.hasOwn(placeholders, match[1])) {
+            return `Unknown placeholder: ${match[0]}`
+        }
+    }
+    return undefined
+}
+
+/**
+ * Render a template by replacing each placeholder with its value.
+ *
+ * Values are requested one at a time, in the order they appear in the template.
+ * (So that Markdown link references get numbered in order.)
+ */
+export async function renderTemplate(
+    template: string,
+    value: (name: string, label?: string) => Promise<string>
+): Promise<string> {
+    const parts: string[] = []
+    let pos = 0
+    for (const match of template.matchAll(PLACEHOLDER_PAT)) {
+        parts.push(template.substring(pos, match.index))
+        parts.push(await value(match[1], match[2]))
+        pos = match.index! + match[0].length
+    }
+    parts.push(template.substring(pos))
+
+    // Placeholders that render as empty can leave extra blank lines:
+    return parts.join("").replaceAll(/\n\s*\n(\s*\n)+/g, "\n\n").trim()
+}
+
+/** Each poll choice, with its votes, as plain text. */
+export async function pollChoices(poll: Poll, templates = DEFAULT_TEMPLATES): Promise<string[]> {
+    const total = poll.choices.reduce((sum, it) => sum + it.count, 0)
+    const choices: string[] = []
+    for (const choice of poll.choices) {
+        // deno-lint-ignore require-await
+        choices.push(await renderTemplate(templates.pollChoice, async (name, label) => {
+            if (name == "choice") { return choice.label }
+            if (name == "votes") { return countLabel(choice.count, label) }
+            if (name == "percent") { return `${total > 0 ? Math.round(choice.count * 100 / total) : 0}` }
+            throw new Error(`Unknown template placeholder: ${name}`)
+        }))
+    }
+    return choices
+}
+
+/** The poll's status, as plain text. See: LABEL_PLACEHOLDERS */
+export async function pollStatus(poll: Poll, templates = DEFAULT_TEMPLATES): Promise<string> {
+    const total = poll.choices.reduce((sum, it) => sum + it.count, 0)
+    // deno-lint-ignore require-await
+    return await renderTemplate(poll.final ? templates.pollFinal : templates.pollOpen, async (name, label) => {
+        if (name == "votes") { return countLabel(total, label) }
+        if (name == "endTime") {
+            if (!poll.endTime) { return "" }
+            return label ? `${label} ${poll.endTime}` : poll.endTime
+        }
+        throw new Error(`Unknown template placeholder: ${name}`)
+    })
+}
+
+/** The label for an image's description, as plain text. */
+export async function imageDescription(alt: string, templates = DEFAULT_TEMPLATES): Promise<string> {
+    // deno-lint-ignore require-await
+    return await renderTemplate(templates.imageDescription, async (name) => {
+        if (name == "alt") { return alt }
+        throw new Error(`Unknown template placeholder: ${name}`)
+    })
+}
+
+/** A count, followed by its label. Labels like "vote|votes" are singular|plural. */
+function countLabel(count: number, label?: string): string {
+    if (label === undefined) { return `${count}` }
+    const [singular, plural] = label.split("|")
+    return `${count} ${count == 1 || plural === undefined ? singular : plural}`
+}
+
+const PLACEHOLDER_PAT = /\{(\w+)(?::([^}]*))?\}/g
@@ -13,31 +13,60 @@ export class Client {
     #keys: TwitterKeys
     baseURL = "https://api.twitter.com"
 
-    constructor(keys: TwitterKeys) {
+    constructor(keys: TwitterKeys, private options: ClientOptions = {}) {
 
         this.#keys = keys
     }
 
-    async * homeTimeline(): AsyncGenerator<TweetJSON> {
-        let maxID: string|undefined = undefined
-        while (true) {
-            const tweets: TweetJSON[] = await this.getFeedPage(maxID)
-            if (tweets.length == 0) { return }
-            for (const tweet of tweets) {
-                if (maxID === tweet.id_str) { continue }
-                yield tweet
-            }
-
-            maxID = tweets[tweets.length - 1].id_str
-        }
+    async * homeTimeline(sinceID?: string): AsyncGenerator<TweetJSON> {
+        yield * this.paged(sinceID, (page) => this.getFeedPage(page))
     }
 
     /** Get tweets from a single user's timeline (i.e.: just tweets by that user) */
     async * userTimeline(screenName: string, timelineOptions: UserTimelineOptions): AsyncGenerator<TweetJSON> {
+        yield * this.paged(timelineOptions.sinceID, (page) => this.getUserTimeline(screenName, page, timelineOptions))
+    }
+
+    /**
+     * Get tweets that the authenticated user has liked, most recently liked first.
+     * 
+     * Note: Twitter pages (and filters by since_id) by tweet ID, not by when it was liked.
+     * So this stops after maxPages, instead of trying to find where we left off.
+     */
+    async * likes(maxPages: number): AsyncGenerator<TweetJSON> {
+        yield * this.paged(undefined, (page) => this.getLikesPage(page), maxPages)
+    }
+
+    /** Get tweets from a Twitter List. */
+    async * listTimeline(list: ListOptions, sinceID?: string): AsyncGenerator<TweetJSON> {
+        yield * this.paged(sinceID, (page) => this.getListPage(list, page))
+    }
+
+    /** Get the users that the authenticated user follows. */
+    async * friends(): AsyncGenerator<UserJSON> {
+        let cursor = "-1"
+        while (cursor !== "0") {
+            const page = await this.getFriendsPage(cursor)
+            yield * page.users
+            cursor = page.next_cursor_str
+        }
+    }
+
+    /** 
+     * Page through an endpoint that supports max_id, until it runs out of tweets (or pages). 
+     * If sinceID is given, only get tweets newer than that.
+     */
+    private async * paged(
+        sinceID: string|undefined,
+        getPage: (page: PageOptions) => Promise<TweetJSON[]>,
+        maxPages = Infinity,
+    ): AsyncGenerator<TweetJSON> {
         let maxID: string|undefined = undefined
-        while (true) {
-            const tweets: TweetJSON[] = await this.getUserTimeline(screenName, maxID, timelineOptions)
+        for (let pages = 0; pages < maxPages; pages++) {
+            const tweets: TweetJSON[] = await getPage({maxID, sinceID})
             if (tweets.length == 0) { return }
+            // max_id is inclusive, so we'll see that tweet again. If it's all we get, we're done:
+            if (tweets.length == 1 && tweets[0].id_str === maxID) { return }
             for (const tweet of tweets) {
                 if (maxID === tweet.id_str) { continue }
                 yield tweet
@@ -47,16 +76,14 @@ export class Client {
         }
     }
 
-    private async getUserTimeline(screenName: string, maxID: string|undefined, options: UserTimelineOptions): Promise<TweetJSON[]> {
+    private async getUserTimeline(screenName: string, page: PageOptions, options: UserTimelineOptions): Promise<TweetJSON[]> {
         let url = new URL(`${this.baseURL}/1.1/statuses/user_timeline.json`)
 
         const params = url.searchParams
         // Get longer tweet texts:
         // See: https://developer.twitter.com/en/docs/twitter-ads-api/creatives/api-reference/tweets
-        params.set("tweet_mode", "extended")
-        if (maxID) {
-            params.set("max_id", maxID)
-        }
+        setTweetParams(params)
+        setPageParams(params, page)
         // OK, I'm limited on the number of requests I can make. 
         // So why would I ever want fewer than the max I can get in a request? 🤦‍♂️
         params.set("count", "200")
@@ -76,15 +103,13 @@ export class Client {
     }
         
 
-    private async getFeedPage(maxID: string|undefined = undefined): Promise<TweetJSON[]> {
+    private async getFeedPage(page: PageOptions = {}): Promise<TweetJSON[]> {
         let url = new URL(`${this.baseURL}/1.1/statuses/home_timeline.json`)
 
         // Get longer tweet texts:
         // See: https://developer.twitter.com/en/docs/twitter-ads-api/creatives/api-reference/tweets
-        url.searchParams.set("tweet_mode", "extended")
-        if (maxID) {
-            url.searchParams.set("max_id", maxID)
-        }
+        setTweetParams(url.searchParams)
+        setPageParams(url.searchParams, page)
         // OK, I'm limited on the number of requests I can make. 
         // So why would I ever want fewer than the max I can get in a request? 🤦‍♂️
         url.searchParams.set("count", "200")
@@ -94,6 +119,70 @@ export class Client {
         return json as TweetJSON[]
     }
 
+    // See: https://developer.twitter.com/en/docs/twitter-api/v1/tweets/post-and-engage/api-reference/get-favorites-list
+    private async getLikesPage(page: PageOptions): Promise<TweetJSON[]> {
+        let url = new URL(`${this.baseURL}/1.1/favorites/list.json`)
+
+        const params = url.searchParams
+        setTweetParams(params)
+        setPageParams(params, page)
+        params.set("count", "200")
+
+        const result = await this.get(url)
+        const json = await result.json()
+        return json as TweetJSON[]
+    }
+
+    // See: https://developer.twitter.com/en/docs/twitter-api/v1/accounts-and-users/create-manage-lists/api-reference/get-lists-statuses
+    private async getListPage(list: ListOptions, page: PageOptions): Promise<TweetJSON[]> {
+        let url = new URL(`${this.baseURL}/1.1/lists/statuses.json`)
+
+        const params = url.searchParams
+        setTweetParams(params)
+        if (list.listID) {
+            params.set("list_id", list.listID)
+        } else if (list.ownerScreenName && list.slug) {
+            params.set("owner_screen_name", list.ownerScreenName)
+            params.set("slug", list.slug)
+        } else {
+            throw new Error("A list requires either listID, or ownerScreenName and slug")
+        }
+        setPageParams(params, page)
+        params.set("count", "200")
+        params.set("include_rts", "true")
+
+        const result = await this.get(url)
+        const json = await result.json()
+        return json as TweetJSON[]
+    }
+
+    // See: https://developer.twitter.com/en/docs/twitter-api/v1/accounts-and-users/follow-search-get-users/api-reference/get-friends-list
+    private async getFriendsPage(cursor: string): Promise<CursoredUsers> {
+        let url = new URL(`${this.baseURL}/1.1/friends/list.json`)
+
+        const params = url.searchParams
+        params.set("cursor", cursor)
+        params.set("count", "200")
+        params.set("skip_status", "true")
+        params.set("include_user_entities", "false")
+
+        const result = await this.get(url)
+        return await result.json() as CursoredUsers
+    }
+
+    /** 
+     * Get a user's profile.
+     * See: https://developer.twitter.com/en/docs/twitter-api/v1/accounts-and-users/follow-search-get-users/api-reference/get-users-show
+     */
+    public async getUser(screenName: string): Promise<UserJSON> {
+        let url = new URL(`${this.baseURL}/1.1/users/show.json`)
+        url.searchParams.set("screen_name", screenName)
+        url.searchParams.set("include_entities", "true")
+
+        const result = await this.get(url)
+        return await result.json() as UserJSON
+    }
+
     /** Get a single tweet */
     public async getStatus(id: string): Promise<TweetJSON> {
         let url = new URL(`${this.baseURL}/1.1/statuses/show.json`)
@@ -103,7 +192,7 @@ export class Client {
         // This is not documented at
         // https://developer.twitter.com/en/docs/twitter-api/v1/tweets/post-and-engage/api-reference/get-statuses-show-id
         // But appears to work.
-        url.searchParams.set("tweet_mode", "extended")
+        setTweetParams(url.searchParams)
 
         const result = await this.get(url)
         const json = await result.json() as TweetJSON
@@ -151,6 +240,9 @@ export class Client {
                     }
                 }
                 const limitResetMS = await parseIntHeader(result, "x-rate-limit-reset") * 1000
+                if (this.options.waitForRateLimit === false) {
+                    throw new RateLimitError(url, limitResetMS)
+                }
                 const now = new Date().valueOf()
                 const waitMs = (limitResetMS - now) + 5000 // for good measure (& clock drift)
                 console.log("Waiting", waitMs/1000, "seconds for rate limit to pass")
@@ -171,9 +263,57 @@ export class Client {
     } // get()
 }
 
+export interface ClientOptions {
+    /** 
+     * When we hit a rate limit, wait for it to reset. (Default: true)
+     * If false, throw a RateLimitError instead.
+     */
+    waitForRateLimit?: boolean
+}
+
+/** Thrown when we hit a rate limit, and ClientOptions.waitForRateLimit is false. */
+export class RateLimitError extends Error {
+    constructor(readonly url: URL, readonly resetMs: number) {
+        super(`Rate limited for ${url.pathname} until ${new Date(resetMs).toISOString()}`)
+    }
+}
+
 export interface UserTimelineOptions {
     skipReplies?: boolean
     skipRetweets?: boolean
+
+    /** Only get tweets newer than this ID. */
+    sinceID?: string
+}
+
+interface PageOptions {
+    maxID?: string
+    sinceID?: string
+}
+
+/** Params to get the full content of tweets. */
+function setTweetParams(params: URLSearchParams) {
+    params.set("tweet_mode", "extended")
+    params.set("include_ext_alt_text", "true")
+    // Polls and link previews are only available as "cards".
+    // These aren't documented for v1.1, but are what Twitter's own web client uses:
+    params.set("include_cards", "true")
+    params.set("cards_platform", "Web-12")
+}
+
+function setPageParams(params: URLSearchParams, page: PageOptions) {
+    if (page.maxID) {
+        params.set("max_id", page.maxID)
+    }
+    if (page.sinceID) {
+        params.set("since_id", page.sinceID)
+    }
+}
+
+export interface ListOptions {
+    listID?: string
+    ownerScreenName?: string
+    slug?: string
 }
 
 /**
@@ -190,6 +330,7 @@ export interface TweetJSON {
 
     in_reply_to_status_id_str?: string
     in_reply_to_screen_name?: string
+    in_reply_to_user_id_str?: string
 
     is_quote_status: boolean,
     quoted_status_permalink?: QuotedStatusPermalink
@@ -198,8 +339,16 @@ export interface TweetJSON {
     retweeted_status?: TweetJSON
     quoted_status?: TweetJSON
 
+    /** BCP 47 language code, or "und" if Twitter couldn't tell. */
+    lang?: string
+
+    // AKA: likes
+    favorite_count?: number
+    retweet_count?: number
+
     entities?: Entities
     extended_entities?: ExtendedEntities
+    card?: CardJSON
 }
 
 export interface UserJSON {
@@ -209,9 +358,33 @@ export interface UserJSON {
     /** The twitter user ID / handle */
     screen_name: string
     protected: boolean
+
+    // These are only sometimes included. (ex: Client.getUser())
+    description?: string|null
+    location?: string|null
+    /** A (shortened) URL the user has set in their profile. */
+    url?: string|null
+    entities?: UserEntities
+
+    /** A small (48x48) version of the user's avatar. Remove "_normal" for the original. */
+    profile_image_url_https?: string
+    default_profile_image?: boolean
+    /** Add a size like "/1500x500" to get an image. */
+    profile_banner_url?: string
 }
 
 
+interface CursoredUsers {
+    users: UserJSON[]
+    /** "0" when there are no more pages. */
+    next_cursor_str: string
+}
+
+export interface UserEntities {
+    url?: {urls: URLMeta[]}
+    description?: {urls: URLMeta[]}
+}
+
 export interface QuotedStatusPermalink {
     url: string,
 
@@ -221,13 +394,33 @@ export interface QuotedStatusPermalink {
     display: string
 }
 
+/**
+ * Things Twitter found in a tweet's text.
+ * 
+ * Indices are [start, end) offsets into full_text, in code points (not UTF-16 code units),
+ * as if full_text were not HTML-escaped.
+ */
 export interface Entities {
     urls: URLMeta[] 
-    // hashtags
+    hashtags?: TextEntity[]
+    symbols?: TextEntity[]
+    user_mentions?: UserMention[]
     // media: use extended_entities
-    // symbols
     // polls
-    // user_mentions (TODO?)
+}
+
+/** A #hashtag or $symbol. */
+export interface TextEntity {
+    indices: [number, number]
+    /** Without the leading # or $ */
+    text: string
+}
+
+export interface UserMention {
+    indices: [number, number]
+    id_str: string
+    screen_name: string
+    name: string
 }
 
 export interface URLMeta {
@@ -244,6 +437,8 @@ export interface ExtendedEntities {
 export interface Media {
     type: "photo"|"video"|"animated_gif"
 
+    indices: [number, number]
+
     /** The short-code URL that gets embedded inside of tweet.text/tweet.full_text */
     url: string
 
@@ -261,9 +456,33 @@ export interface Media {
      */
     media_url_https: string
 
+    /** A description of the image, if the user added one. (Requires include_ext_alt_text=true) */
+    ext_alt_text?: string|null
+
     video_info?: VideoInfo
 }
 
+/**
+ * Polls and link previews. Only included w/ include_cards=true.
+ * 
+ * The contents of binding_values depend on the card's name. ex:
+ *  * "poll2choice_text_only" .. "poll4choice_text_only": choice1_label, choice1_count, counts_are_final, ...
+ *  * "summary", "summary_large_image": title, description, domain, thumbnail_image_original, ...
+ */
+export interface CardJSON {
+    name: string
+    /** The (short) URL this card is for. */
+    url: string
+    binding_values: Record<string, CardValue>
+}
+
+export interface CardValue {
+    type: "STRING"|"BOOLEAN"|"IMAGE"|"IMAGE_COLOR"|"USER"
+    string_value?: string
+    boolean_value?: boolean
+    image_value?: {url: string, width: number, height: number, alt?: string}
+}
+
 export interface VideoInfo {
     variants: VideoVariant[]
 }